@@ -0,0 +1,86 @@
+// @vitest-environment jsdom
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import App from "./App";
+
+// jsdom has no layout, canvas drawing or image decoding: the canvas is given a
+// 400×300 box on screen and the photo a size, and everything else is drawing
+// the component skips when there's no 2D context.
+const CANVAS = { width: 400, height: 300 };
+
+// jsdom leaves these out entirely
+URL.createObjectURL = () => "blob:photo";
+URL.revokeObjectURL = () => {};
+HTMLCanvasElement.prototype.setPointerCapture = () => {};
+
+beforeEach(() => {
+  vi.spyOn(HTMLCanvasElement.prototype, "getContext").mockReturnValue(null);
+  vi.spyOn(HTMLCanvasElement.prototype, "getBoundingClientRect").mockReturnValue(
+    DOMRect.fromRect({ x: 0, y: 0, ...CANVAS })
+  );
+});
+
+afterEach(() => {
+  cleanup();
+  vi.restoreAllMocks();
+});
+
+async function loadPhoto(width: number, height: number) {
+  const { container } = render(<App />);
+  const input = container.querySelector<HTMLInputElement>('input[type="file"]:not([capture])')!;
+  fireEvent.change(input, { target: { files: [new File(["jpeg"], "front.jpg", { type: "image/jpeg" })] } });
+
+  const img = await screen.findByAltText("uploaded");
+  Object.defineProperty(img, "naturalWidth", { value: width });
+  Object.defineProperty(img, "naturalHeight", { value: height });
+  fireEvent.load(img);
+  return screen.getByLabelText("Photo markup");
+}
+
+// one finger from a to b, in canvas CSS px
+function drag(canvas: HTMLElement, a: [number, number], b: [number, number]) {
+  const at = ([clientX, clientY]: [number, number]) => ({ pointerId: 1, pointerType: "touch", clientX, clientY });
+  fireEvent.pointerDown(canvas, at(a));
+  fireEvent.pointerMove(canvas, at([(a[0] + b[0]) / 2, (a[1] + b[1]) / 2]));
+  fireEvent.pointerMove(canvas, at(b));
+  fireEvent.pointerUp(canvas, at(b));
+}
+
+describe("drawing on the photo", () => {
+  it("maps a letterboxed drag to image pixels and calibrates from the reference", async () => {
+    // 800×400 in a 400×300 canvas: half size, with 50 px bars above and below
+    const canvas = await loadPhoto(800, 400);
+    drag(canvas, [20, 70], [62.5, 125]);
+
+    // (40, 40) to (125, 150) in the photo: a letter sheet at 10 px per inch
+    await screen.findByText("set (85×110 px)");
+    expect(screen.getByText(/10 horiz · 10 vert/)).toBeTruthy();
+  });
+
+  it("measures a window drawn after the reference", async () => {
+    const canvas = await loadPhoto(800, 600);
+    drag(canvas, [20, 20], [62.5, 75]);
+    await screen.findByText("set (85×110 px)");
+
+    fireEvent.click(screen.getByText("Draw Windows"));
+    drag(canvas, [100, 25], [190, 125]);
+
+    // 180×200 px at 10 px per inch
+    await waitFor(() => expect(screen.getByText(/180×200 px/)).toBeTruthy());
+    expect(screen.getByText(/18×20 in\s*· 2\.5 sq ft ±/)).toBeTruthy();
+  });
+
+  it("undoes wheel zoom when mapping the drag", async () => {
+    const canvas = await loadPhoto(800, 600);
+    // 2× about the canvas corner
+    fireEvent.wheel(canvas, { deltaY: -Math.log(2) / 0.0015, clientX: 0, clientY: 0 });
+    drag(canvas, [40, 40], [125, 150]);
+    await screen.findByText("set (85×110 px)");
+  });
+
+  it("ignores a drag that starts in the letterbox", async () => {
+    const canvas = await loadPhoto(800, 400);
+    drag(canvas, [20, 20], [62.5, 125]);
+    expect(screen.getByText("not set (draw it on the photo)")).toBeTruthy();
+  });
+});
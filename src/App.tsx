@@ -1,44 +1,173 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import "./App.css";
+import { distance, pointBounds, rectToQuad } from "./geometry";
+import type { Point } from "./geometry";
+import { ASPECT_TOLERANCE, REFERENCE_PRESETS, aspectMismatch } from "./calibration";
+import type { RefPreset, RefSize } from "./calibration";
+import {
+  MIN_BOX_PX,
+  WINDOW_SHAPES,
+  boxHandles,
+  boxShape,
+  containsPoint,
+  countedQuantity,
+  hitHandle,
+  moveBox,
+  resizeBox,
+  uid,
+  windowAttrs,
+} from "./boxes";
+import type { Box, BoxType, Handle, WindowAttrs, WindowShape } from "./boxes";
+import { canRedo, canUndo, createHistory, pushHistory, redo, undo } from "./history";
+import {
+  ELEVATIONS,
+  INITIAL_PHOTO_MARKUP,
+  allBoxes,
+  createJob,
+  isBlankJob,
+  photoMarkup,
+  photoTitle,
+} from "./jobs";
+import type { Elevation, Job, JobPhoto, PhotoMarkup } from "./jobs";
+import { measurePhoto, windowSqft } from "./measure";
+import { HIGH_ERROR, MARK_ERROR_PX, totalError } from "./accuracy";
+import type { AreaBasis } from "./measure";
+import { DEFAULT_PRICE_BOOK, DEFAULT_PRICE_BOOK_ID, dollars, priceJob } from "./pricing";
+import type { PriceBook, PriceLineInput } from "./pricing";
+import { deletePriceBook, listPriceBooks, saveJob, savePriceBook } from "./db";
+import SavedJobs from "./SavedJobs";
+import { WINDOW_COLOR, boxColor, canvasToBlob, overlayLabel, renderPhotoExport, traceBox } from "./annotate";
+import { buildCustomerQuotePdf, collectQuoteWindows } from "./quotePdf";
+import PriceBooks from "./PriceBooks";
+import WindowSchedule from "./WindowSchedule";
+import CommissionPanel from "./CommissionPanel";
+import { downloadBlob, fileSlug, shareOrDownload } from "./download";
+import { suggestReference, suggestWindows } from "./suggest";
+import { MIN_REFERENCE_CONFIDENCE } from "./detect";
+import { edgeMapForImage, snapPoint } from "./snap";
+import { rotatePhoto, straightenAngle, uprightPhoto, workingImage } from "./preprocess";
+import type { WorkingImage } from "./preprocess";
+import { FIT_VIEW, canvasToImage, clampScale, containFit, imageToCanvas, zoomAbout, zoomToRect } from "./view";
+import type { View } from "./view";
+import {
+  AREA_UNITS,
+  LENGTH_UNITS,
+  UNIT_SYSTEMS,
+  areaUnit,
+  fromInches,
+  fromSqft,
+  inputLength,
+  lengthUnit,
+  toInches,
+} from "./units";
+import type { LengthUnit, UnitSystem } from "./units";
+import type { EdgeMap, SnapAxes } from "./snap";
+
+type Tool = BoxType | "select";
+type MarkupMode = "rect" | "quad";
+
+const AUTOSAVE_DELAY_MS = 400;
+const SNAP_RADIUS_PX = 12; // canvas CSS px
+const LOUPE_RADIUS_PX = 56;
+const LOUPE_ZOOM = 3; // relative to the current on-screen zoom
+const WHEEL_ZOOM_RATE = 0.0015; // per wheel pixel
+const CAN_SHARE = typeof navigator.share === "function";
 
-type BoxType = "reference" | "window";
+function round2(n: number) {
+  return Math.round(n * 100) / 100;
+}
 
-type Box = {
-  id: string;
-  type: BoxType;
-  label: string;
-  x: number; // in image pixel coords
-  y: number;
-  w: number;
-  h: number;
-};
+// counts (floor, quantity, lites) from a number input: whole and at least 1, as job files require
+function countInput(value: string) {
+  return Math.max(1, Math.round(Number(value)) || 1);
+}
 
-function uid() {
-  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+// a resize grip only moves the edges it sits on
+function snapAxes(handle: Handle): SnapAxes {
+  if (typeof handle === "number") return { x: true, y: true };
+  return { x: /[ew]/.test(handle), y: /[ns]/.test(handle) };
 }
 
-function round2(n: number) {
-  return Math.round(n * 100) / 100;
+function referenceLabel(preset: RefPreset) {
+  return preset === "paper" ? "Paper" : preset === "door" ? "Door" : "Reference";
 }
 
 export default function App() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const imgRef = useRef<HTMLImageElement | null>(null);
+  const cameraRef = useRef<HTMLInputElement | null>(null);
+  const working = useRef<WorkingImage | null>(null); // downscaled copy of the photo for redraws
+
+  const [screen, setScreen] = useState<"estimate" | "jobs" | "priceBooks">("estimate");
+  const [job, setJob] = useState<Job>(() => createJob());
+  const openedJob = useRef<Job | null>(null); // as loaded, so merely opening it doesn't bump updatedAt
+  const pendingSave = useRef<{ job: Job; timer: number } | null>(null); // an autosave still waiting out its delay
+  const [saveStatus, setSaveStatus] = useState<"idle" | "saved" | "error">("idle");
+  const [priceBooks, setPriceBooks] = useState<PriceBook[]>([DEFAULT_PRICE_BOOK]);
+  const [pdfBusy, setPdfBusy] = useState(false);
+  const [imageFormat, setImageFormat] = useState<"image/png" | "image/jpeg">("image/jpeg");
+  const [imageBusy, setImageBusy] = useState(false);
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [photosBusy, setPhotosBusy] = useState(false);
+  const [leveling, setLeveling] = useState(false);
+  const [metricRefUnit, setMetricRefUnit] = useState<LengthUnit>("cm"); // sheets are often given in mm
+  const [levelLine, setLevelLine] = useState<{ a: Point; b: Point } | null>(null); // image px
 
   const [imageUrl, setImageUrl] = useState<string>("");
   const [imageNatural, setImageNatural] = useState<{ w: number; h: number } | null>(null);
 
-  const [boxes, setBoxes] = useState<Box[]>([]);
-  const [activeDrawType, setActiveDrawType] = useState<BoxType>("reference");
+  const [activePhotoId, setActivePhotoId] = useState<string | null>(null);
+  const [history, setHistory] = useState(() => createHistory(job.markup));
+  const markup = history.present.state;
+  const current = activePhotoId ? photoMarkup(markup, activePhotoId) : INITIAL_PHOTO_MARKUP;
+  const { boxes, refPreset, refSize } = current;
+  // sizes are kept in inches and sq ft; these are only for entry and display
+  const len = lengthUnit(job.units);
+  const refLen = job.units === "metric" ? metricRefUnit : len;
+  const area = areaUnit(job.units);
+  const areaLabel = AREA_UNITS[area].label;
+  const showLength = (inches: number) => round2(fromInches(inches, len));
+  const showArea = (sqft: number) => round2(fromSqft(sqft, area));
+  const lengthInput = (value: string) => toInches(Math.max(0, Number(value)), len);
+  const [tool, setTool] = useState<Tool>("reference");
+  const [markupMode, setMarkupMode] = useState<MarkupMode>("rect");
+  const [windowShape, setWindowShape] = useState<WindowShape>("rect");
+  // polygon being placed one corner per tap; `placing` while the newest corner is still under the finger
+  const [polyDraft, setPolyDraft] = useState<{ points: Point[]; placing: boolean } | null>(null);
 
   const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
   const [draftBox, setDraftBox] = useState<Box | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editDrag, setEditDrag] = useState<{
+    gesture: string; // history key so the whole drag undoes as one step
+    id: string;
+    handle: Handle | "move";
+    start: Point;
+    orig: Box;
+  } | null>(null);
+
+  // detection proposals for one photo; outside markup and undo until accepted
+  const [suggestions, setSuggestions] = useState<{ photoId: string; boxes: Box[] } | null>(null);
+  const [detecting, setDetecting] = useState(false);
+  const suggested = useMemo(
+    () => (suggestions && suggestions.photoId === activePhotoId ? suggestions.boxes : []),
+    [suggestions, activePhotoId]
+  );
+  const selectedSuggestion = suggested.find((s) => s.id === selectedId) ?? null;
+  // last automatic reference search on a photo; boxId is null when nothing good was found
+  const [refDetect, setRefDetect] = useState<{ photoId: string; boxId: string | null; confidence: number } | null>(
+    null
+  );
 
-  const [refPreset, setRefPreset] = useState<"paper" | "door" | "custom">("paper");
-  const [refRealInches, setRefRealInches] = useState<number>(11); // paper height default 11"
+  const [snapEdges, setSnapEdges] = useState(true);
+  const edgeMap = useRef<{ url: string; map: EdgeMap | null } | null>(null); // built on first snap per photo
+  const [loupeAt, setLoupeAt] = useState<Point | null>(null); // image px under the finger while drawing/resizing
 
   // View transform (pinch zoom + pan) in BASE canvas space
-  const [view, setView] = useState({ scale: 1, tx: 0, ty: 0 });
+  const [view, setView] = useState<View>(FIT_VIEW);
+  // desktop: hold space (or use the middle button) and drag to pan
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const panStart = useRef<{ x: number; y: number; tx: number; ty: number } | null>(null);
 
   // Pinch tracking
   const pointers = useRef(new Map<number, { x: number; y: number }>());
@@ -50,67 +179,414 @@ export default function App() {
     ty: number;
   }>(null);
 
-  function dist(a: { x: number; y: number }, b: { x: number; y: number }) {
-    const dx = a.x - b.x;
-    const dy = a.y - b.y;
-    return Math.sqrt(dx * dx + dy * dy);
-  }
-
   function mid(a: { x: number; y: number }, b: { x: number; y: number }) {
     return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
   }
 
-  function clampScale(s: number) {
-    return Math.max(1, Math.min(6, s)); // min 1x, max 6x
+  // derived: this photo's reference, per-axis scale / homography and window sizes
+  const measured = useMemo(() => measurePhoto(current), [current]);
+  const { referenceBox, scale, homography } = measured;
+  const windowMeasurements = measured.windows;
+  const photoSqft = measured.sqft;
+
+  // size, area and error after the pixel size in the window list
+  function windowSizeNote(b: Box) {
+    const size = windowMeasurements.get(b.id);
+    if (!size) return null;
+    const a = windowAttrs(b);
+    const qty = countedQuantity(b);
+    return (
+      <>
+        {" "}
+        · {showLength(size.wIn)}×{showLength(size.hIn)} {len}
+        {(a.measuredWIn > 0 || a.measuredHIn > 0) && " (tape)"}
+        {" "}
+        · {showArea(size.sqft * qty)} {areaLabel} ±{Math.round(totalError(size.error) * 100)}%
+        {size.glassSqft < size.sqft && <> · {showArea(size.glassSqft * qty)} glass</>}
+      </>
+    );
   }
 
-  // derived: reference pixels per inch (ppi) using reference box height
-  const referenceBox = useMemo(() => boxes.find((b) => b.type === "reference") ?? null, [boxes]);
-
-  const pixelsPerInch = useMemo(() => {
-    if (!referenceBox) return null;
-    const real = refRealInches > 0 ? refRealInches : null;
-    if (!real) return null;
-    return referenceBox.h / real; // use height axis
-  }, [referenceBox, refRealInches]);
+  // a loose or tilted rectangle shows up as a pixel aspect that disagrees with the preset
+  const referenceAspectOff = useMemo(() => {
+    if (!referenceBox || referenceBox.quad || !scale) return null;
+    const off = aspectMismatch(referenceBox.w, referenceBox.h, refSize);
+    return off > ASPECT_TOLERANCE ? off : null;
+  }, [referenceBox, refSize, scale]);
 
   const windowBoxes = useMemo(() => boxes.filter((b) => b.type === "window"), [boxes]);
 
-  const windowSqft = useMemo(() => {
-    if (!pixelsPerInch) return null;
-    const ppi = pixelsPerInch;
-    let total = 0;
-    for (const b of windowBoxes) {
-      const wIn = b.w / ppi;
-      const hIn = b.h / ppi;
-      total += (wIn * hIn) / 144;
+  // rollup: every photo measured against its own reference
+  const photoRollup = useMemo(
+    () => job.photos.map((photo) => ({ photo, m: measurePhoto(photoMarkup(markup, photo.id)) })),
+    [job.photos, markup]
+  );
+
+  const elevationRollup = useMemo(() => {
+    const out = new Map<Elevation, number>();
+    for (const { photo, m } of photoRollup) {
+      const sqft = job.areaBasis === "glass" ? m.glassSqft : m.sqft;
+      if (sqft === null) continue;
+      out.set(photo.elevation, (out.get(photo.elevation) ?? 0) + sqft);
     }
+    return out;
+  }, [photoRollup, job.areaBasis]);
+
+  // photos with windows drawn but no usable reference don't count toward the total
+  const uncalibratedPhotos = useMemo(
+    () =>
+      photoRollup.filter(
+        ({ photo, m }) => m.sqft === null && photoMarkup(markup, photo.id).boxes.some((b) => b.type === "window")
+      ),
+    [photoRollup, markup]
+  );
+
+  const jobSqft = useMemo(() => {
+    if (elevationRollup.size === 0) return null;
+    let total = 0;
+    for (const v of elevationRollup.values()) total += v;
     return total;
-  }, [pixelsPerInch, windowBoxes]);
+  }, [elevationRollup]);
 
-  function resetAll() {
-    setBoxes([]);
+  // each photo has its own reference, so photo errors are independent
+  const jobSqftError = useMemo(
+    () =>
+      Math.hypot(...photoRollup.map(({ m }) => (job.areaBasis === "glass" ? m.glassSqftError : m.sqftError) ?? 0)),
+    [photoRollup, job.areaBasis]
+  );
+
+  // a deleted book falls back to the default one
+  const priceBook =
+    priceBooks.find((b) => b.id === job.priceBookId) ??
+    priceBooks.find((b) => b.id === DEFAULT_PRICE_BOOK_ID) ??
+    DEFAULT_PRICE_BOOK;
+
+  // one price line per counted window; priceJob groups them by product
+  const priceInputs = useMemo(() => {
+    if (!jobSqft) return null;
+    const inputs: PriceLineInput[] = [];
+    for (const { photo, m } of photoRollup) {
+      for (const b of photoMarkup(markup, photo.id).boxes) {
+        const size = m.windows.get(b.id);
+        const qty = countedQuantity(b);
+        if (!size || qty === 0) continue;
+        const a = windowAttrs(b);
+        inputs.push({
+          productId: a.productId,
+          sqft: windowSqft(size, job.areaBasis) * qty,
+          windows: qty,
+          liftWindows: a.floor > 1 ? qty : 0,
+          extraPanes: Math.max(0, a.panes - 1) * qty,
+        });
+      }
+    }
+    return inputs;
+  }, [jobSqft, photoRollup, markup, job.areaBasis]);
+
+  const quote = useMemo(() => priceInputs && priceJob(priceBook, priceInputs), [priceBook, priceInputs]);
+
+  // retail repriced at the ends of the measurement error, so tiers and minimums still apply
+  const measuredRetail = useMemo(() => {
+    if (!priceInputs || !quote || !(quote.sqft > 0)) return null;
+    const rel = Math.min(1, jobSqftError / quote.sqft);
+    const at = (k: number) => priceJob(priceBook, priceInputs.map((i) => ({ ...i, sqft: i.sqft * k })));
+    return { rel, low: at(1 - rel).totalLow, high: at(1 + rel).totalHigh };
+  }, [priceBook, priceInputs, quote, jobSqftError]);
+
+  // edits always target the photo on screen
+  function applyMarkup(label: string, update: (pm: PhotoMarkup) => PhotoMarkup, key?: string) {
+    if (!activePhotoId) return;
+    const id = activePhotoId;
+    setHistory((h) => {
+      const m = h.present.state;
+      const next = { ...m, byPhoto: { ...m.byPhoto, [id]: update(photoMarkup(m, id)) } };
+      return pushHistory(h, next, label, key);
+    });
+  }
+
+  function undoMarkup() {
+    setHistory(undo);
+    setEditDrag(null);
+  }
+
+  function redoMarkup() {
+    setHistory(redo);
+    setEditDrag(null);
+  }
+
+  function clearInteraction() {
     setDraftBox(null);
     setDragStart(null);
+    setSelectedId(null);
+    setEditDrag(null);
+    setLoupeAt(null);
+    setPolyDraft(null);
+    setLeveling(false);
+    setLevelLine(null);
+  }
+
+  function pickTool(next: Tool) {
+    setTool(next);
+    setPolyDraft(null);
+    setLeveling(false);
+  }
+
+  function pickWindowShape(next: WindowShape) {
+    setWindowShape(next);
+    setPolyDraft(null);
+  }
+
+  function resetAll() {
+    applyMarkup("Clear boxes", (m) => ({ ...m, boxes: [] }));
+    clearInteraction();
   }
 
   function resetView() {
-    setView({ scale: 1, tx: 0, ty: 0 });
+    setView(FIT_VIEW);
+  }
+
+  function zoomToSelection() {
+    const info = getCanvasAndImageScale();
+    const b = [...boxes, ...suggested].find((x) => x.id === selectedId);
+    if (!info || !b) return;
+    const k = info.baseScale;
+    setView(
+      zoomToRect(
+        { x: b.x * k, y: b.y * k, w: b.w * k, h: b.h * k },
+        { w: info.rect.width, h: info.rect.height },
+        { x: info.baseOffsetX, y: info.baseOffsetY }
+      )
+    );
+  }
+
+  // arrow keys move the selection one image pixel, ten with Shift; repeats merge into one undo step
+  function nudgeSelected(dx: number, dy: number) {
+    if (!imageNatural || !selectedId) return;
+    const bounds = imageNatural;
+    if (suggested.some((b) => b.id === selectedId)) {
+      updateSuggestions((list) => list.map((b) => (b.id === selectedId ? moveBox(b, dx, dy, bounds) : b)));
+      return;
+    }
+    const box = boxes.find((b) => b.id === selectedId);
+    if (!box) return;
+    applyMarkup(
+      `Nudge ${box.label}`,
+      (m) => ({ ...m, boxes: m.boxes.map((b) => (b.id === box.id ? moveBox(b, dx, dy, bounds) : b)) }),
+      `nudge:${box.id}`
+    );
+  }
+
+  function handleCanvasKeyDown(e: React.KeyboardEvent<HTMLCanvasElement>) {
+    const step = e.shiftKey ? 10 : 1;
+    const arrows: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+    if (arrows[e.key]) {
+      e.preventDefault();
+      nudgeSelected(...arrows[e.key]);
+    } else if (e.key === " ") {
+      e.preventDefault(); // no page scroll while panning
+      setSpaceHeld(true);
+    } else if (e.key === "0") {
+      resetView();
+    } else if (e.key === "f" || e.key === "F") {
+      zoomToSelection();
+    }
+  }
+
+  function showPhoto(blob: Blob | null) {
+    if (imageUrl) URL.revokeObjectURL(imageUrl);
+    setImageUrl(blob ? URL.createObjectURL(blob) : "");
+    setImageNatural(null);
   }
 
-  function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
-    const f = e.target.files?.[0];
-    if (!f) return;
-    const url = URL.createObjectURL(f);
-    setImageUrl(url);
-    resetAll();
+  function selectPhoto(photo: JobPhoto | null) {
+    setActivePhotoId(photo?.id ?? null);
+    showPhoto(photo?.blob ?? null);
+    clearInteraction();
     resetView();
   }
 
-  function syncRefPreset(p: "paper" | "door" | "custom") {
-    setRefPreset(p);
-    if (p === "paper") setRefRealInches(11);
-    if (p === "door") setRefRealInches(80);
+  // next exterior side not yet photographed, then interior rooms
+  function nextElevation(photos: JobPhoto[]): Elevation {
+    const used = new Set(photos.map((p) => p.elevation));
+    const sides: Elevation[] = ["front", "rear", "left", "right"];
+    return sides.find((e) => !used.has(e)) ?? "interior";
+  }
+
+  async function onFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = ""; // let the same file be picked again later
+    if (files.length === 0) return;
+
+    // camera shots are turned upright before they're stored, so every later load agrees on the size
+    setPhotosBusy(true);
+    let blobs: Blob[];
+    try {
+      blobs = await Promise.all(files.map((f) => uprightPhoto(f).catch(() => f)));
+    } finally {
+      setPhotosBusy(false);
+    }
+
+    const added: JobPhoto[] = [];
+    files.forEach((f, i) => {
+      const elevation = nextElevation([...job.photos, ...added]);
+      added.push({ id: uid(), name: f.name || "Camera photo", blob: blobs[i], elevation, room: "" });
+    });
+
+    // new photos start with the calibration of the photo on screen
+    const seed: PhotoMarkup = { boxes: [], refPreset, refSize };
+    setJob((j) => ({ ...j, photos: [...j.photos, ...added] }));
+    setHistory((h) => {
+      const byPhoto = { ...h.present.state.byPhoto };
+      for (const p of added) byPhoto[p.id] = seed;
+      return pushHistory(h, { ...h.present.state, byPhoto }, added.length > 1 ? "Add photos" : "Add photo");
+    });
+    selectPhoto(added[0]);
+  }
+
+  // rotating re-encodes the photo itself, so it's offered only before anything is drawn on it
+  async function rotateActivePhoto(angle: number) {
+    const photo = job.photos.find((p) => p.id === activePhotoId);
+    if (!photo || boxes.length > 0 || Math.abs(angle) < 1e-4) return;
+    setPhotosBusy(true);
+    try {
+      const blob = await rotatePhoto(photo.blob, angle);
+      setJob((j) => ({ ...j, photos: j.photos.map((p) => (p.id === photo.id ? { ...p, blob } : p)) }));
+      setSuggestions(null);
+      setRefDetect(null);
+      showPhoto(blob);
+      resetView();
+    } catch {
+      alert("Could not rotate the photo.");
+    } finally {
+      setPhotosBusy(false);
+    }
+  }
+
+  function updatePhoto(id: string, patch: Partial<Pick<JobPhoto, "elevation" | "room">>) {
+    setJob((j) => ({ ...j, photos: j.photos.map((p) => (p.id === id ? { ...p, ...patch } : p)) }));
+  }
+
+  function removePhoto(id: string) {
+    const photo = job.photos.find((p) => p.id === id);
+    if (!photo) return;
+    if (!confirm(`Remove the ${photoTitle(photo)} photo and its markup? This cannot be undone.`)) return;
+
+    const photos = job.photos.filter((p) => p.id !== id);
+    setJob((j) => ({ ...j, photos }));
+    // the photo blob is gone, so its markup can't come back through undo either
+    const byPhoto = { ...markup.byPhoto };
+    delete byPhoto[id];
+    setHistory(createHistory({ ...markup, byPhoto }));
+    if (id === activePhotoId) selectPhoto(photos[0] ?? null);
+  }
+
+  function updateJob(
+    patch: Partial<Pick<Job, "customerName" | "address" | "date" | "priceBookId" | "areaBasis" | "units" | "deal">>
+  ) {
+    setJob((j) => ({ ...j, ...patch }));
+  }
+
+  function openJob(next: Job) {
+    flushSave();
+    openedJob.current = next;
+    setJob(next);
+    setHistory(createHistory(next.markup));
+    selectPhoto(next.photos[0] ?? null);
+    setSaveStatus("idle");
+    setScreen("estimate");
+  }
+
+  function newJob() {
+    openJob(createJob());
+  }
+
+  function onJobDeleted(id: string) {
+    if (id !== job.id) return;
+    const fresh = createJob();
+    setJob(fresh);
+    setHistory(createHistory(fresh.markup));
+    selectPhoto(null);
+  }
+
+  // jobs and photos are local, so going offline only changes the header note
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener("online", update);
+    window.addEventListener("offline", update);
+    return () => {
+      window.removeEventListener("online", update);
+      window.removeEventListener("offline", update);
+    };
+  }, []);
+
+  // price books live in IndexedDB; the built-in default is always available
+  useEffect(() => {
+    listPriceBooks()
+      .then((stored) => {
+        if (stored.some((b) => b.id === DEFAULT_PRICE_BOOK_ID)) setPriceBooks(stored);
+        else setPriceBooks([DEFAULT_PRICE_BOOK, ...stored]);
+      })
+      .catch(() => setSaveStatus("error"));
+  }, []);
+
+  function onSavePriceBook(book: PriceBook) {
+    setPriceBooks((prev) =>
+      prev.some((b) => b.id === book.id) ? prev.map((b) => (b.id === book.id ? book : b)) : [...prev, book]
+    );
+    savePriceBook(book).catch(() => setSaveStatus("error"));
+  }
+
+  function onDeletePriceBook(id: string) {
+    setPriceBooks((prev) => prev.filter((b) => b.id !== id));
+    deletePriceBook(id).catch(() => setSaveStatus("error"));
+  }
+
+  function writeJob(snapshot: Job) {
+    saveJob(snapshot)
+      .then(() => setSaveStatus("saved"))
+      .catch(() => setSaveStatus("error"));
+  }
+
+  // save the last edit now rather than lose it when another job replaces this one within the delay
+  function flushSave() {
+    const pending = pendingSave.current;
+    if (!pending) return;
+    clearTimeout(pending.timer);
+    pendingSave.current = null;
+    writeJob(pending.job);
+  }
+
+  // autosave to IndexedDB shortly after any change to the job or its markup
+  useEffect(() => {
+    const snapshot: Job = { ...job, markup, updatedAt: Date.now() };
+    if (isBlankJob(snapshot)) return;
+    if (job === openedJob.current && markup === job.markup) return;
+    const timer = window.setTimeout(() => {
+      pendingSave.current = null;
+      writeJob(snapshot);
+    }, AUTOSAVE_DELAY_MS);
+    pendingSave.current = { job: snapshot, timer };
+    return () => {
+      clearTimeout(timer);
+      pendingSave.current = null;
+    };
+  }, [job, markup]);
+
+  function syncRefPreset(p: RefPreset) {
+    applyMarkup("Change reference preset", (m) => {
+      if (p === "custom") return { ...m, refPreset: p };
+      const { w, h } = REFERENCE_PRESETS[p];
+      return { ...m, refPreset: p, refSize: { w, h } };
+    });
+  }
+
+  function setRefSize(size: RefSize) {
+    applyMarkup("Edit reference size", (m) => ({ ...m, refSize: size }), `refSize:${activePhotoId}`);
   }
 
   /**
@@ -123,58 +599,44 @@ export default function App() {
     if (!canvas || !img || !imageNatural) return null;
 
     const rect = canvas.getBoundingClientRect();
-    const displayW = rect.width;
-    const displayH = rect.height;
-
-    const imgAspect = imageNatural.w / imageNatural.h;
-    const canvasAspect = displayW / displayH;
-
-    let baseW = displayW;
-    let baseH = displayH;
-    let baseOffsetX = 0;
-    let baseOffsetY = 0;
-
-    if (imgAspect > canvasAspect) {
-      baseW = displayW;
-      baseH = displayW / imgAspect;
-      baseOffsetY = (displayH - baseH) / 2;
-    } else {
-      baseH = displayH;
-      baseW = displayH * imgAspect;
-      baseOffsetX = (displayW - baseW) / 2;
-    }
-
-    const baseScale = baseW / imageNatural.w;
-
-    return { canvas, rect, baseW, baseH, baseOffsetX, baseOffsetY, baseScale };
+    return { canvas, rect, ...containFit(imageNatural, { w: rect.width, h: rect.height }) };
   }, [imageNatural]);
 
   function canvasPointToImagePoint(clientX: number, clientY: number) {
     const info = getCanvasAndImageScale();
     if (!info || !imageNatural) return null;
+    // pointer in canvas CSS pixels
+    return canvasToImage({ x: clientX - info.rect.left, y: clientY - info.rect.top }, info, view, imageNatural);
+  }
 
-    const { rect, baseOffsetX, baseOffsetY, baseScale } = info;
-
-    // Pointer in canvas CSS pixels
-    const xCanvas = clientX - rect.left;
-    const yCanvas = clientY - rect.top;
-
-    // remove base contain offset
-    const xInBase = xCanvas - baseOffsetX;
-    const yInBase = yCanvas - baseOffsetY;
-
-    // undo zoom/pan (view transform is in base space)
-    const xUnzoom = (xInBase - view.tx) / view.scale;
-    const yUnzoom = (yInBase - view.ty) / view.scale;
-
-    // base px -> image px
-    const xImg = xUnzoom / baseScale;
-    const yImg = yUnzoom / baseScale;
+  /**
+   * Handle under pt within a finger-sized radius (in canvas CSS px). Quad corners
+   * are grabbable from any tool; rect grips only on the selected box.
+   */
+  function hitEditHandle(pt: Point) {
+    const info = getCanvasAndImageScale();
+    if (!info) return null;
+    const radius = 16 / (info.baseScale * view.scale);
 
-    if (xImg < 0 || yImg < 0) return null;
-    if (xImg > imageNatural.w || yImg > imageNatural.h) return null;
+    if (selectedSuggestion) {
+      const handle = hitHandle(selectedSuggestion, pt, radius);
+      if (handle !== null) return { box: selectedSuggestion, handle };
+    }
+    for (const b of [...boxes].reverse()) {
+      if (!b.quad && !b.points && (tool !== "select" || b.id !== selectedId)) continue;
+      const handle = hitHandle(b, pt, radius);
+      if (handle !== null) return { box: b, handle };
+    }
+    return null;
+  }
 
-    return { x: xImg, y: yImg };
+  function snapped(pt: Point, axes: SnapAxes = { x: true, y: true }) {
+    const img = imgRef.current;
+    const info = getCanvasAndImageScale();
+    if (!snapEdges || !img || !info) return pt;
+    if (edgeMap.current?.url !== imageUrl) edgeMap.current = { url: imageUrl, map: edgeMapForImage(img) };
+    const map = edgeMap.current.map;
+    return map ? snapPoint(map, pt, SNAP_RADIUS_PX / (info.baseScale * view.scale), axes) : pt;
   }
 
   function handlePointerDown(e: React.PointerEvent<HTMLCanvasElement>) {
@@ -182,32 +644,116 @@ export default function App() {
     const pt = canvasPointToImagePoint(e.clientX, e.clientY);
     if (!pt) return;
 
-    setDragStart(pt);
+    if (leveling) {
+      setLevelLine({ a: pt, b: pt });
+      return;
+    }
+
+    const grip = hitEditHandle(pt);
+    if (grip) {
+      setSelectedId(grip.box.id);
+      setEditDrag({ gesture: uid(), id: grip.box.id, handle: grip.handle, start: pt, orig: grip.box });
+      setLoupeAt(pt);
+      return;
+    }
+
+    // tapping a suggestion picks it up for adjusting rather than drawing over it
+    const suggestion = tool !== "reference" ? [...suggested].reverse().find((b) => containsPoint(b, pt)) : undefined;
+    if (suggestion) {
+      setSelectedId(suggestion.id);
+      setEditDrag({ gesture: uid(), id: suggestion.id, handle: "move", start: pt, orig: suggestion });
+      return;
+    }
+
+    if (tool === "select") {
+      // topmost box wins, matching draw order
+      const hit = [...boxes].reverse().find((b) => containsPoint(b, pt));
+      setSelectedId(hit?.id ?? null);
+      if (hit) setEditDrag({ gesture: uid(), id: hit.id, handle: "move", start: pt, orig: hit });
+      return;
+    }
+
+    const start = snapped(pt);
+    setLoupeAt(start);
+
+    if (tool === "window" && windowShape === "polygon") {
+      const points = polyDraft?.points ?? [];
+      // tapping the first corner again closes the shape
+      const info = getCanvasAndImageScale();
+      const closeRadius = info ? 16 / (info.baseScale * view.scale) : 0;
+      if (points.length >= 3 && distance(points[0], pt) <= closeRadius) {
+        finishPolygon(points);
+        setLoupeAt(null);
+        return;
+      }
+      setPolyDraft({ points: [...points, start], placing: true });
+      return;
+    }
+
+    setDragStart(start);
 
     const label =
-      activeDrawType === "reference"
-        ? refPreset === "paper"
-          ? "Paper"
-          : refPreset === "door"
-          ? "Door"
-          : "Reference"
-        : `Window ${windowBoxes.length + 1}`;
+      tool === "reference"
+        ? referenceLabel(refPreset)
+        : `Window ${allBoxes(markup).filter((b) => b.type === "window").length + 1}`;
 
     setDraftBox({
       id: "draft",
-      type: activeDrawType,
+      type: tool,
       label,
-      x: pt.x,
-      y: pt.y,
+      x: start.x,
+      y: start.y,
       w: 1,
       h: 1,
+      shape: tool === "window" && windowShape !== "rect" ? windowShape : undefined,
     });
   }
 
   function handlePointerMove(e: React.PointerEvent<HTMLCanvasElement>) {
+    if (levelLine) {
+      const pt = canvasPointToImagePoint(e.clientX, e.clientY);
+      if (pt) setLevelLine({ ...levelLine, b: pt });
+      return;
+    }
+
+    if (editDrag) {
+      const pt = canvasPointToImagePoint(e.clientX, e.clientY);
+      if (!pt || !imageNatural) return;
+      const { orig, handle, start } = editDrag;
+      let next: Box;
+      if (handle === "move") {
+        next = moveBox(orig, pt.x - start.x, pt.y - start.y, imageNatural);
+      } else {
+        const target = snapped(pt, snapAxes(handle));
+        next = resizeBox(orig, handle, target);
+        setLoupeAt(target);
+      }
+      if (suggested.some((b) => b.id === editDrag.id)) {
+        updateSuggestions((list) => list.map((b) => (b.id === editDrag.id ? next : b)));
+        return;
+      }
+      applyMarkup(
+        `${handle === "move" ? "Move" : "Resize"} ${orig.label}`,
+        (m) => ({ ...m, boxes: m.boxes.map((b) => (b.id === editDrag.id ? next : b)) }),
+        editDrag.gesture
+      );
+      return;
+    }
+
+    if (polyDraft?.placing) {
+      const raw = canvasPointToImagePoint(e.clientX, e.clientY);
+      if (!raw) return;
+      const pt = snapped(raw);
+      setPolyDraft({ points: [...polyDraft.points.slice(0, -1), pt], placing: true });
+      setLoupeAt(pt);
+      return;
+    }
+
     if (!dragStart || !draftBox) return;
-    const pt = canvasPointToImagePoint(e.clientX, e.clientY);
-    if (!pt) return;
+    const raw = canvasPointToImagePoint(e.clientX, e.clientY);
+    if (!raw) return;
+    const pt = snapped(raw);
+    setLoupeAt(pt);
 
     const x1 = dragStart.x;
     const y1 = dragStart.y;
@@ -223,34 +769,245 @@ export default function App() {
   }
 
   function handlePointerUp() {
+    setLoupeAt(null);
+    if (levelLine) {
+      setLevelLine(null);
+      if (distance(levelLine.a, levelLine.b) < MIN_BOX_PX) return;
+      setLeveling(false);
+      rotateActivePhoto(straightenAngle(levelLine.a, levelLine.b));
+      return;
+    }
+
+    if (editDrag) {
+      setEditDrag(null);
+      return;
+    }
+
+    if (polyDraft?.placing) {
+      setPolyDraft({ ...polyDraft, placing: false });
+      return;
+    }
+
     if (!draftBox) {
       setDragStart(null);
       return;
     }
 
-    if (draftBox.w < 10 || draftBox.h < 10) {
+    if (draftBox.w < MIN_BOX_PX || draftBox.h < MIN_BOX_PX) {
       setDraftBox(null);
       setDragStart(null);
       return;
     }
 
+    const committed: Box = { ...draftBox, id: uid() };
+    if (markupMode === "quad" && !committed.shape) {
+      committed.quad = rectToQuad(draftBox.x, draftBox.y, draftBox.w, draftBox.h);
+    }
+
     if (draftBox.type === "reference") {
-      setBoxes((prev) => [
-        ...prev.filter((b) => b.type !== "reference"),
-        { ...draftBox, id: uid() },
-      ]);
+      const replacing = referenceBox !== null;
+      applyMarkup(replacing ? "Replace reference" : "Add reference", (m) => ({
+        ...m,
+        boxes: [...m.boxes.filter((b) => b.type !== "reference"), committed],
+      }));
     } else {
-      setBoxes((prev) => [...prev, { ...draftBox, id: uid() }]);
+      applyMarkup(`Add ${committed.label}`, (m) => ({ ...m, boxes: [...m.boxes, committed] }));
     }
 
     setDraftBox(null);
     setDragStart(null);
   }
 
+  function finishPolygon(points: Point[]) {
+    const bounds = pointBounds(points);
+    setPolyDraft(null);
+    if (points.length < 3 || bounds.w < MIN_BOX_PX || bounds.h < MIN_BOX_PX) return;
+    const label = `Window ${allBoxes(markup).filter((b) => b.type === "window").length + 1}`;
+    const committed: Box = { id: uid(), type: "window", label, ...bounds, shape: "polygon", points };
+    applyMarkup(`Add ${label}`, (m) => ({ ...m, boxes: [...m.boxes, committed] }));
+  }
+
+  function setBoxShape(id: string, shape: WindowShape) {
+    applyMarkup("Change window shape", (m) => ({
+      ...m,
+      boxes: m.boxes.map((b) => (b.id === id ? { ...b, shape: shape === "rect" ? undefined : shape } : b)),
+    }));
+  }
+
   function deleteBox(id: string) {
-    setBoxes((prev) => prev.filter((b) => b.id !== id));
+    const target = boxes.find((b) => b.id === id);
+    applyMarkup(`Delete ${target?.label ?? "box"}`, (m) => ({
+      ...m,
+      boxes: m.boxes.filter((b) => b.id !== id),
+    }));
+    if (selectedId === id) setSelectedId(null);
   }
 
+  async function detectWindows() {
+    const img = imgRef.current;
+    const photoId = activePhotoId;
+    if (!img || !photoId) return;
+    setDetecting(true);
+    try {
+      const found = await suggestWindows(img, boxes);
+      setSuggestions({ photoId, boxes: found });
+      if (found.length === 0) alert("No new windows found on this photo — draw them by hand.");
+    } catch {
+      alert("Window detection isn't available in this browser.");
+    } finally {
+      setDetecting(false);
+    }
+  }
+
+  async function findReference() {
+    const img = imgRef.current;
+    const photoId = activePhotoId;
+    if (!img || !photoId || refPreset === "custom") return;
+    setDetecting(true);
+    try {
+      const found = await suggestReference(img, refPreset, refSize, referenceLabel(refPreset));
+      if (found && found.confidence >= MIN_REFERENCE_CONFIDENCE) {
+        applyMarkup("Detect reference", (m) => ({
+          ...m,
+          boxes: [...m.boxes.filter((b) => b.type !== "reference"), found.box],
+        }));
+        setRefDetect({ photoId, boxId: found.box.id, confidence: found.confidence });
+      } else {
+        // fall back to drawing it by hand
+        setRefDetect({ photoId, boxId: null, confidence: found?.confidence ?? 0 });
+        pickTool("reference");
+      }
+    } catch {
+      alert("Reference detection isn't available in this browser.");
+    } finally {
+      setDetecting(false);
+    }
+  }
+
+  function updateSuggestions(update: (list: Box[]) => Box[]) {
+    setSuggestions((s) => (s ? { ...s, boxes: update(s.boxes) } : s));
+  }
+
+  function acceptSuggestions(ids: string[]) {
+    const first = allBoxes(markup).filter((b) => b.type === "window").length + 1;
+    const added = suggested
+      .filter((b) => ids.includes(b.id))
+      .map((b, i): Box => ({
+        ...b,
+        label: `Window ${first + i}`,
+        quad: markupMode === "quad" ? rectToQuad(b.x, b.y, b.w, b.h) : undefined,
+      }));
+    if (added.length === 0) return;
+    applyMarkup(added.length === 1 ? `Add ${added[0].label}` : `Accept ${added.length} suggested windows`, (m) => ({
+      ...m,
+      boxes: [...m.boxes, ...added],
+    }));
+    updateSuggestions((list) => list.filter((b) => !ids.includes(b.id)));
+  }
+
+  function rejectSuggestions(ids: string[]) {
+    updateSuggestions((list) => list.filter((b) => !ids.includes(b.id)));
+    if (selectedId && ids.includes(selectedId)) setSelectedId(null);
+  }
+
+  function renameBox(id: string, label: string) {
+    applyMarkup(
+      "Rename window",
+      (m) => ({ ...m, boxes: m.boxes.map((b) => (b.id === id ? { ...b, label } : b)) }),
+      `rename:${id}`
+    );
+  }
+
+  async function downloadCustomerQuote() {
+    if (!quote) return;
+    setPdfBusy(true);
+    try {
+      const blob = await buildCustomerQuotePdf(job, markup, priceBook, quote);
+      downloadBlob(blob, `quote-${fileSlug(job.customerName, "estimate")}-${job.date}.pdf`);
+    } catch {
+      alert("Could not generate the PDF quote.");
+    } finally {
+      setPdfBusy(false);
+    }
+  }
+
+  // the active photo with numbered, sized windows and a legend; numbers match the customer quote
+  async function exportAnnotatedPhoto(share: boolean) {
+    const photo = job.photos.find((p) => p.id === activePhotoId);
+    if (!photo) return;
+    setImageBusy(true);
+    try {
+      const { rows, photos } = collectQuoteWindows(job, markup, priceBook);
+      const numbers = photos.find((p) => p.photoId === photo.id)?.numbers ?? new Map<string, number>();
+      const labels = new Map(Array.from(numbers, ([id, n]) => [id, overlayLabel(rows[n - 1], job.units)]));
+      const title = [photoTitle(photo), job.customerName, job.date].filter(Boolean).join(" — ");
+      const preset = refPreset === "custom" ? "custom size" : REFERENCE_PRESETS[refPreset].label;
+      const reference = referenceBox ? `${preset}, ${showLength(refSize.w)} × ${showLength(refSize.h)} ${len}` : null;
+      const canvas = await renderPhotoExport(photo.blob, boxes, labels, { title, reference });
+      const blob = await canvasToBlob(canvas, imageFormat);
+      const name = `${fileSlug(photoTitle(photo), "photo")}-${fileSlug(job.customerName, "estimate")}-${job.date}`;
+      const filename = `${name}.${imageFormat === "image/png" ? "png" : "jpg"}`;
+      await shareOrDownload(blob, filename, title, share);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === "AbortError")) alert("Could not export the photo.");
+    } finally {
+      setImageBusy(false);
+    }
+  }
+
+  function updateWindowAttrs(id: string, patch: Partial<WindowAttrs>) {
+    applyMarkup(
+      "Edit window details",
+      (m) => ({ ...m, boxes: m.boxes.map((b) => (b.id === id ? { ...b, attrs: { ...b.attrs, ...patch } } : b)) }),
+      `attrs:${id}`
+    );
+  }
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo; text fields keep their native undo
+  useEffect(() => {
+    function onKeyDown(e: KeyboardEvent) {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) {
+        return;
+      }
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        setHistory(undo);
+        setEditDrag(null);
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        setHistory(redo);
+        setEditDrag(null);
+      }
+    }
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // wheel zoom about the cursor; React's wheel listener is passive, so it can't stop the page scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    function onWheel(e: WheelEvent) {
+      const info = getCanvasAndImageScale();
+      if (!info) return;
+      e.preventDefault();
+      const lines = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : 1;
+      const factor = Math.exp(-e.deltaY * lines * WHEEL_ZOOM_RATE);
+      const at = {
+        x: e.clientX - info.rect.left - info.baseOffsetX,
+        y: e.clientY - info.rect.top - info.baseOffsetY,
+      };
+      setView((v) => zoomAbout(v, v.scale * factor, at));
+    }
+    canvas.addEventListener("wheel", onWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", onWheel);
+  }, [imageUrl, getCanvasAndImageScale]);
+
   // draw canvas
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -274,40 +1031,171 @@ export default function App() {
 
     const { baseW, baseH, baseOffsetX, baseOffsetY, baseScale } = info;
 
-    // draw image with zoom/pan in base space
+    // draw image with zoom/pan in base space, from the working copy unless zoomed past its detail
+    const copy = working.current;
+    const source = copy && baseScale * view.scale <= copy.k ? copy.source : img;
     ctx.save();
     ctx.translate(baseOffsetX + view.tx, baseOffsetY + view.ty);
     ctx.scale(view.scale, view.scale);
-    ctx.drawImage(img, 0, 0, baseW, baseH);
+    ctx.drawImage(source, 0, 0, baseW, baseH);
     ctx.restore();
 
-    const drawBox = (b: Box, stroke: string) => {
-      const xBase = b.x * baseScale;
-      const yBase = b.y * baseScale;
-      const wBase = b.w * baseScale;
-      const hBase = b.h * baseScale;
-
-      const x = baseOffsetX + view.tx + xBase * view.scale;
-      const y = baseOffsetY + view.ty + yBase * view.scale;
-      const w = wBase * view.scale;
-      const h = hBase * view.scale;
+    const toCanvas = (p: Point) => imageToCanvas(p, info, view);
 
+    const drawBox = (b: Box, stroke: string) => {
       ctx.lineWidth = window.innerWidth < 980 ? 3 : 2;
       ctx.strokeStyle = stroke;
-      ctx.strokeRect(x, y, w, h);
+
+      // outline in image px, mapped through the contain offset and zoom
+      ctx.save();
+      ctx.translate(baseOffsetX + view.tx, baseOffsetY + view.ty);
+      traceBox(ctx, b, baseScale * view.scale);
+      ctx.restore();
+      ctx.stroke();
+
+      // corner handles on quads and polygons
+      const corners = b.quad ?? b.points;
+      if (!corners) return;
+      ctx.fillStyle = stroke;
+      for (const p of corners.map(toCanvas)) {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 6, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    };
+
+    // selection outline + square grips (quads and polygons already show their corner dots)
+    const drawSelection = (b: Box) => {
+      ctx.save();
+      ctx.lineWidth = 1;
+      ctx.strokeStyle = "rgba(255,255,255,0.95)";
+      ctx.setLineDash([6, 4]);
+      const tl = toCanvas({ x: b.x, y: b.y });
+      const br = toCanvas({ x: b.x + b.w, y: b.y + b.h });
+      ctx.strokeRect(tl.x - 4, tl.y - 4, br.x - tl.x + 8, br.y - tl.y + 8);
+      ctx.restore();
+
+      if (b.quad || b.points) return;
+      ctx.fillStyle = "rgba(255,255,255,0.95)";
+      for (const [, p] of boxHandles(b)) {
+        const c = toCanvas(p);
+        ctx.fillRect(c.x - 5, c.y - 5, 10, 10);
+      }
     };
 
-    for (const b of boxes) {
-      if (b.type === "reference") drawBox(b, "rgba(0,180,220,0.9)");
-      else drawBox(b, "rgba(255,200,0,0.9)");
+    for (const b of boxes) drawBox(b, boxColor(b));
+
+    // detection suggestions stay dashed until accepted
+    ctx.save();
+    ctx.setLineDash([8, 6]);
+    for (const b of suggested) drawBox(b, WINDOW_COLOR);
+    ctx.restore();
+
+    const selected = boxes.find((b) => b.id === selectedId) ?? suggested.find((b) => b.id === selectedId);
+    if (selected) drawSelection(selected);
+
+    if (draftBox) drawBox(draftBox, boxColor(draftBox));
+
+    // polygon in progress: open outline, corner dots, a ring on the first corner to close it
+    if (polyDraft) {
+      const pts = polyDraft.points.map(toCanvas);
+      ctx.save();
+      ctx.strokeStyle = WINDOW_COLOR;
+      ctx.fillStyle = WINDOW_COLOR;
+      ctx.lineWidth = window.innerWidth < 980 ? 3 : 2;
+      ctx.beginPath();
+      pts.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+      ctx.stroke();
+      for (const p of pts) {
+        ctx.beginPath();
+        ctx.arc(p.x, p.y, 5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+      if (pts.length >= 3) {
+        ctx.beginPath();
+        ctx.arc(pts[0].x, pts[0].y, 12, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+      ctx.restore();
+    }
+
+    // level line being dragged for straightening
+    if (levelLine) {
+      const a = toCanvas(levelLine.a);
+      const b = toCanvas(levelLine.b);
+      ctx.save();
+      ctx.strokeStyle = "#f5a623";
+      ctx.lineWidth = 2;
+      ctx.setLineDash([8, 6]);
+      ctx.beginPath();
+      ctx.moveTo(a.x, a.y);
+      ctx.lineTo(b.x, b.y);
+      ctx.stroke();
+      ctx.restore();
     }
 
-    if (draftBox) {
-      const color =
-        draftBox.type === "reference" ? "rgba(0,180,220,0.9)" : "rgba(255,200,0,0.9)";
-      drawBox(draftBox, color);
+    // loupe: magnified pixels under the finger, drawn above it (below near the top edge)
+    if (loupeAt) {
+      const r = LOUPE_RADIUS_PX;
+      const s = baseScale * view.scale * LOUPE_ZOOM; // loupe px per image px
+      const at = toCanvas(loupeAt);
+      const cx = Math.min(Math.max(at.x, r + 2), canvas.width - r - 2);
+      const cy = at.y - 2 * r - 40 >= 2 ? at.y - r - 40 : at.y + r + 40;
+      const editing = editDrag && [...boxes, ...suggested].find((b) => b.id === editDrag.id);
+      const active = draftBox ?? editing ?? null;
+
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(cx, cy, r, 0, Math.PI * 2);
+      ctx.clip();
+      ctx.fillStyle = "#111";
+      ctx.fillRect(cx - r, cy - r, r * 2, r * 2);
+      ctx.translate(cx - loupeAt.x * s, cy - loupeAt.y * s);
+      // only the patch under the loupe, at full resolution
+      const x0 = loupeAt.x - r / s;
+      const y0 = loupeAt.y - r / s;
+      ctx.drawImage(img, x0, y0, (2 * r) / s, (2 * r) / s, x0 * s, y0 * s, 2 * r, 2 * r);
+      if (active) {
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = boxColor(active);
+        traceBox(ctx, active, s);
+        ctx.stroke();
+      }
+      ctx.restore();
+
+      ctx.save();
+      ctx.strokeStyle = "rgba(255,255,255,0.95)";
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(cx - r, cy);
+      ctx.lineTo(cx - 4, cy);
+      ctx.moveTo(cx + 4, cy);
+      ctx.lineTo(cx + r, cy);
+      ctx.moveTo(cx, cy - r);
+      ctx.lineTo(cx, cy - 4);
+      ctx.moveTo(cx, cy + 4);
+      ctx.lineTo(cx, cy + r);
+      ctx.stroke();
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(cx, cy, r, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.restore();
     }
-  }, [boxes, draftBox, imageUrl, imageNatural, view, getCanvasAndImageScale]);
+  }, [
+    boxes,
+    suggested,
+    draftBox,
+    polyDraft,
+    levelLine,
+    editDrag,
+    loupeAt,
+    selectedId,
+    imageUrl,
+    imageNatural,
+    view,
+    getCanvasAndImageScale,
+  ]);
 
   return (
     <div className="wrap">
@@ -318,24 +1206,187 @@ export default function App() {
             1) Upload photo → 2) Draw <b>Reference</b> → 3) Draw <b>Windows</b> → 4) Get SqFt + Pricing
           </p>
         </div>
+        <div className="row">
+          <span className="muted">
+            {!online && "Offline · "}
+            {saveStatus === "saved" && "Saved on this device"}
+            {saveStatus === "error" && <span className="warn">Not saved — storage unavailable</span>}
+          </span>
+          <button className="btn" onClick={() => setScreen(screen === "jobs" ? "estimate" : "jobs")}>
+            {screen === "jobs" ? "Back to estimate" : "Saved jobs"}
+          </button>
+          <button className="btn" onClick={() => setScreen(screen === "priceBooks" ? "estimate" : "priceBooks")}>
+            {screen === "priceBooks" ? "Back to estimate" : "Price books"}
+          </button>
+        </div>
       </header>
 
-      <div className="grid">
+      {screen === "jobs" && (
+        <SavedJobs
+          currentJobId={job.id}
+          priceBooks={priceBooks}
+          onOpen={openJob}
+          onNew={newJob}
+          onClose={() => setScreen("estimate")}
+          onDeleted={onJobDeleted}
+          onImportPriceBook={onSavePriceBook}
+        />
+      )}
+
+      {screen === "priceBooks" && (
+        <PriceBooks
+          books={priceBooks}
+          onSave={onSavePriceBook}
+          onDelete={onDeletePriceBook}
+          onClose={() => setScreen("estimate")}
+        />
+      )}
+
+      {/* kept mounted (just hidden) on other screens so the canvas keeps its drawing */}
+      <div className="grid" style={screen !== "estimate" ? { display: "none" } : undefined}>
         <section className="card">
-          <h2>Photo</h2>
+          <h2>Job</h2>
           <div className="row">
-            <input type="file" accept="image/*" onChange={onFileChange} />
-            <button className="btn" onClick={resetAll} disabled={!imageUrl}>
+            <label className="label">Customer</label>
+            <input
+              className="input"
+              value={job.customerName}
+              placeholder="Customer name"
+              onChange={(e) => updateJob({ customerName: e.target.value })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Address</label>
+            <input
+              className="input"
+              value={job.address}
+              placeholder="Street, city"
+              onChange={(e) => updateJob({ address: e.target.value })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Date</label>
+            <input
+              className="input"
+              type="date"
+              value={job.date}
+              onChange={(e) => updateJob({ date: e.target.value })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Units</label>
+            <select
+              className="input"
+              value={job.units}
+              onChange={(e) => updateJob({ units: e.target.value as UnitSystem })}
+            >
+              {Object.entries(UNIT_SYSTEMS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </section>
+
+        <section className="card">
+          <h2>Photos</h2>
+          <div className="row">
+            <input type="file" accept="image/*" multiple onChange={onFileChange} disabled={photosBusy} />
+            <button className="btn" onClick={() => cameraRef.current?.click()} disabled={photosBusy}>
+              Take photo
+            </button>
+            <input
+              ref={cameraRef}
+              type="file"
+              accept="image/*"
+              capture="environment"
+              hidden
+              onChange={onFileChange}
+            />
+            <button className="btn" onClick={resetAll} disabled={!imageUrl || boxes.length === 0}>
               Clear boxes
             </button>
-            <button className="btn" onClick={resetView} disabled={!imageUrl}>
-              Reset view
+            <button
+              className="btn"
+              onClick={undoMarkup}
+              disabled={!canUndo(history)}
+              title={canUndo(history) ? `Undo ${history.present.label} (Ctrl+Z)` : "Nothing to undo"}
+            >
+              Undo
+            </button>
+            <button
+              className="btn"
+              onClick={redoMarkup}
+              disabled={!canRedo(history)}
+              title={canRedo(history) ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : "Nothing to redo"}
+            >
+              Redo
+            </button>
+            <button className="btn" onClick={resetView} disabled={!imageUrl} title="Show the whole photo (0)">
+              Zoom to fit
+            </button>
+            <button
+              className="btn"
+              onClick={zoomToSelection}
+              disabled={!imageUrl || !selectedId}
+              title="Zoom to the selected box (F)"
+            >
+              Zoom to selection
             </button>
           </div>
 
+          {job.photos.length > 0 && (
+            <div className="seg">
+              {job.photos.map((p) => (
+                <button
+                  key={p.id}
+                  className={p.id === activePhotoId ? "segBtn active" : "segBtn"}
+                  onClick={() => selectPhoto(p)}
+                >
+                  {photoTitle(p)}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {activePhotoId && (
+            <div className="row">
+              <label className="label">Elevation</label>
+              <select
+                className="input"
+                value={job.photos.find((p) => p.id === activePhotoId)?.elevation}
+                onChange={(e) => updatePhoto(activePhotoId, { elevation: e.target.value as Elevation })}
+              >
+                {Object.entries(ELEVATIONS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="input"
+                placeholder="Room / note (optional)"
+                value={job.photos.find((p) => p.id === activePhotoId)?.room ?? ""}
+                onChange={(e) => updatePhoto(activePhotoId, { room: e.target.value })}
+              />
+              <button className="link" onClick={() => removePhoto(activePhotoId)}>
+                remove photo
+              </button>
+            </div>
+          )}
+
           {!imageUrl ? (
             <div className="empty">
-              Upload a house/window photo. On iPhone, this will let you take a photo or choose from Photos.
+              {photosBusy ? (
+                "Preparing photos…"
+              ) : (
+                <>
+                  Upload house/window photos — one per elevation or room — or use <b>Take photo</b> to open the
+                  camera. Add the app to your home screen from the browser&apos;s share or menu button to use it with
+                  no signal.
+                </>
+              )}
             </div>
           ) : (
             <>
@@ -346,6 +1397,7 @@ export default function App() {
                 style={{ display: "none" }}
                 onLoad={(e) => {
                   const el = e.currentTarget;
+                  working.current = workingImage(el);
                   setImageNatural({ w: el.naturalWidth, h: el.naturalHeight });
                 }}
               />
@@ -354,14 +1406,31 @@ export default function App() {
                 <canvas
                   ref={canvasRef}
                   className="canvas"
+                  tabIndex={0}
+                  aria-label="Photo markup"
+                  style={spaceHeld ? { cursor: "grab" } : undefined}
+                  onKeyDown={handleCanvasKeyDown}
+                  onKeyUp={(e) => {
+                    if (e.key === " ") setSpaceHeld(false);
+                  }}
+                  onBlur={() => setSpaceHeld(false)}
                   onPointerDown={(e) => {
                     (e.currentTarget as HTMLCanvasElement).setPointerCapture(e.pointerId);
+                    e.currentTarget.focus({ preventScroll: true });
+
+                    // mouse pan: middle button, or space + drag
+                    if (e.pointerType === "mouse" && (e.button === 1 || spaceHeld)) {
+                      e.preventDefault(); // no autoscroll
+                      panStart.current = { x: e.clientX, y: e.clientY, tx: view.tx, ty: view.ty };
+                      return;
+                    }
+
                     pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
 
                     // 2 pointers => pinch/2-finger pan
                     if (pointers.current.size === 2) {
                       const pts = Array.from(pointers.current.values());
-                      const d = dist(pts[0], pts[1]);
+                      const d = distance(pts[0], pts[1]);
                       const m = mid(pts[0], pts[1]);
                       pinchStart.current = {
                         dist: d,
@@ -372,6 +1441,8 @@ export default function App() {
                       };
                       setDragStart(null);
                       setDraftBox(null);
+                      setEditDrag(null);
+                      setLoupeAt(null);
                       return;
                     }
 
@@ -379,13 +1450,18 @@ export default function App() {
                     handlePointerDown(e);
                   }}
                   onPointerMove={(e) => {
+                    const pan = panStart.current;
+                    if (pan) {
+                      setView((v) => ({ ...v, tx: pan.tx + e.clientX - pan.x, ty: pan.ty + e.clientY - pan.y }));
+                      return;
+                    }
                     if (!pointers.current.has(e.pointerId)) return;
                     pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
 
                     // pinch
                     if (pointers.current.size === 2 && pinchStart.current) {
                       const pts = Array.from(pointers.current.values());
-                      const dNow = dist(pts[0], pts[1]);
+                      const dNow = distance(pts[0], pts[1]);
                       const mNow = mid(pts[0], pts[1]);
 
                       const start = pinchStart.current;
@@ -407,6 +1483,10 @@ export default function App() {
                     handlePointerMove(e);
                   }}
                   onPointerUp={(e) => {
+                    if (panStart.current) {
+                      panStart.current = null;
+                      return;
+                    }
                     pointers.current.delete(e.pointerId);
 
                     if (pointers.current.size < 2) pinchStart.current = null;
@@ -419,11 +1499,14 @@ export default function App() {
                     }
                   }}
                   onPointerCancel={(e) => {
+                    panStart.current = null;
                     pointers.current.delete(e.pointerId);
                     pinchStart.current = null;
                     pointers.current.clear();
                     setDragStart(null);
                     setDraftBox(null);
+                    setEditDrag(null);
+                    setLoupeAt(null);
                   }}
                 />
               </div>
@@ -431,20 +1514,169 @@ export default function App() {
               <div className="row">
                 <div className="seg">
                   <button
-                    className={activeDrawType === "reference" ? "segBtn active" : "segBtn"}
-                    onClick={() => setActiveDrawType("reference")}
+                    className={tool === "reference" ? "segBtn active" : "segBtn"}
+                    onClick={() => pickTool("reference")}
                   >
                     Draw Reference
                   </button>
                   <button
-                    className={activeDrawType === "window" ? "segBtn active" : "segBtn"}
-                    onClick={() => setActiveDrawType("window")}
+                    className={tool === "window" ? "segBtn active" : "segBtn"}
+                    onClick={() => pickTool("window")}
                   >
                     Draw Windows
                   </button>
+                  <button
+                    className={tool === "select" ? "segBtn active" : "segBtn"}
+                    onClick={() => pickTool("select")}
+                  >
+                    Select / Edit
+                  </button>
+                </div>
+
+                <div className="seg">
+                  <button
+                    className={markupMode === "rect" ? "segBtn active" : "segBtn"}
+                    onClick={() => setMarkupMode("rect")}
+                  >
+                    Rectangle
+                  </button>
+                  <button
+                    className={markupMode === "quad" ? "segBtn active" : "segBtn"}
+                    onClick={() => setMarkupMode("quad")}
+                  >
+                    4-corner
+                  </button>
+                </div>
+
+                <label className="muted">
+                  <input type="checkbox" checked={snapEdges} onChange={(e) => setSnapEdges(e.target.checked)} /> Snap
+                  to edges
+                </label>
+
+                <div className="hint">
+                  Tip: two fingers pinch/drag to zoom + pan. In 4-corner mode, drag the dots onto the real corners.
+                  Arches, circles and triangles are drawn by their bounding box; for a polygon tap each corner and
+                  tap the first one again to close it.
+                  Select / Edit: tap a box to move it or drag its grips to resize. The loupe above your finger shows
+                  the exact spot; with snapping on, edges jump to nearby frame lines. With a mouse: scroll to zoom,
+                  hold space or the middle button to pan, arrow keys nudge the selected box (Shift for 10 px).
+                </div>
+              </div>
+
+              <div className="row">
+                <button
+                  className="btn"
+                  onClick={() => rotateActivePhoto(-Math.PI / 2)}
+                  disabled={photosBusy || boxes.length > 0}
+                >
+                  Rotate ⟲
+                </button>
+                <button
+                  className="btn"
+                  onClick={() => rotateActivePhoto(Math.PI / 2)}
+                  disabled={photosBusy || boxes.length > 0}
+                >
+                  Rotate ⟳
+                </button>
+                <button
+                  className={leveling ? "btnPrimary" : "btn"}
+                  onClick={() => {
+                    setLeveling(!leveling);
+                    setLevelLine(null);
+                  }}
+                  disabled={photosBusy || boxes.length > 0}
+                >
+                  {leveling ? "Cancel straighten" : "Straighten"}
+                </button>
+                <span className="muted">
+                  {photosBusy
+                    ? "Preparing photo…"
+                    : leveling
+                      ? "Drag along something that should be level or plumb — a sill, a siding course, a door jamb."
+                      : boxes.length > 0
+                        ? "Rotate and straighten before marking up (clear the boxes to use them)."
+                        : "Turn or level the photo before marking it up."}
+                </span>
+              </div>
+
+              {tool === "window" && (
+                <div className="row">
+                  <div className="seg">
+                    {(Object.entries(WINDOW_SHAPES) as [WindowShape, string][]).map(([shape, name]) => (
+                      <button
+                        key={shape}
+                        className={windowShape === shape ? "segBtn active" : "segBtn"}
+                        onClick={() => pickWindowShape(shape)}
+                      >
+                        {name}
+                      </button>
+                    ))}
+                  </div>
+                  {windowShape === "polygon" && (
+                    <>
+                      <span className="muted">
+                        {!polyDraft
+                          ? "Tap each corner in turn"
+                          : polyDraft.points.length < 3
+                            ? `${polyDraft.points.length} of at least 3 corners`
+                            : "Tap the first corner to close"}
+                      </span>
+                      {polyDraft && (
+                        <>
+                          <button
+                            className="btn"
+                            onClick={() => finishPolygon(polyDraft.points)}
+                            disabled={polyDraft.points.length < 3}
+                          >
+                            Finish shape
+                          </button>
+                          <button
+                            className="btn"
+                            onClick={() =>
+                              setPolyDraft(
+                                polyDraft.points.length > 1 ? { points: polyDraft.points.slice(0, -1), placing: false } : null
+                              )
+                            }
+                          >
+                            Undo corner
+                          </button>
+                          <button className="link" onClick={() => setPolyDraft(null)}>
+                            cancel
+                          </button>
+                        </>
+                      )}
+                    </>
+                  )}
                 </div>
+              )}
 
-                <div className="hint">Tip: two fingers pinch/drag to zoom + pan.</div>
+              <div className="row">
+                <button className="btn" onClick={detectWindows} disabled={detecting || !imageNatural}>
+                  {detecting ? "Detecting…" : "Detect windows"}
+                </button>
+                {suggested.length > 0 && (
+                  <>
+                    <span className="muted">
+                      {suggested.length} suggested — tap a dashed box to move or resize it
+                    </span>
+                    {selectedSuggestion && (
+                      <>
+                        <button className="btn" onClick={() => acceptSuggestions([selectedSuggestion.id])}>
+                          Accept
+                        </button>
+                        <button className="btn" onClick={() => rejectSuggestions([selectedSuggestion.id])}>
+                          Reject
+                        </button>
+                      </>
+                    )}
+                    <button className="btnPrimary" onClick={() => acceptSuggestions(suggested.map((b) => b.id))}>
+                      Accept all
+                    </button>
+                    <button className="link" onClick={() => rejectSuggestions(suggested.map((b) => b.id))}>
+                      reject all
+                    </button>
+                  </>
+                )}
               </div>
             </>
           )}
@@ -457,24 +1689,61 @@ export default function App() {
             <label className="label">Reference preset</label>
             <select
               value={refPreset}
-              onChange={(e) => syncRefPreset(e.target.value as "paper" | "door" | "custom")}
+              onChange={(e) => syncRefPreset(e.target.value as RefPreset)}
               className="input"
             >
-              <option value="paper">Letter paper (11&quot; tall)</option>
-              <option value="door">Standard door (80&quot; tall)</option>
-              <option value="custom">Custom (inches)</option>
+              {Object.entries(REFERENCE_PRESETS).map(([key, p]) => (
+                <option key={key} value={key}>
+                  {p.label} ({showLength(p.w)}×{showLength(p.h)} {len})
+                </option>
+              ))}
+              <option value="custom">Custom size</option>
             </select>
+            {job.units === "metric" && (
+              <select
+                className="input"
+                aria-label="Reference units"
+                value={metricRefUnit}
+                onChange={(e) => setMetricRefUnit(e.target.value as LengthUnit)}
+              >
+                <option value="cm">cm</option>
+                <option value="mm">mm</option>
+              </select>
+            )}
           </div>
 
           <div className="row">
-            <label className="label">Reference height (inches)</label>
+            <button
+              className="btn"
+              onClick={findReference}
+              disabled={detecting || !imageNatural || refPreset === "custom"}
+            >
+              {detecting ? "Detecting…" : `Find ${refPreset === "door" ? "door" : "paper"} automatically`}
+            </button>
+          </div>
+
+          <div className="row">
+            <label className="label">Reference width ({refLen})</label>
             <input
               className="input"
               type="number"
-              value={refRealInches}
+              value={inputLength(refSize.w, refLen)}
               min={1}
-              step={0.25}
-              onChange={(e) => setRefRealInches(Number(e.target.value))}
+              step={LENGTH_UNITS[refLen].step}
+              onChange={(e) => setRefSize({ ...refSize, w: toInches(Number(e.target.value), refLen) })}
+              disabled={refPreset !== "custom"}
+            />
+          </div>
+
+          <div className="row">
+            <label className="label">Reference height ({refLen})</label>
+            <input
+              className="input"
+              type="number"
+              value={inputLength(refSize.h, refLen)}
+              min={1}
+              step={LENGTH_UNITS[refLen].step}
+              onChange={(e) => setRefSize({ ...refSize, h: toInches(Number(e.target.value), refLen) })}
               disabled={refPreset !== "custom"}
             />
           </div>
@@ -489,9 +1758,46 @@ export default function App() {
               )}
             </div>
             <div>
-              <b>Pixels per inch:</b>{" "}
-              {pixelsPerInch ? round2(pixelsPerInch) : <span className="warn">—</span>}
+              <b>Pixels per {len === "in" ? "inch" : len}:</b>{" "}
+              {scale ? (
+                <>
+                  {round2(scale.x / LENGTH_UNITS[len].perInch)} horiz ·{" "}
+                  {round2(scale.y / LENGTH_UNITS[len].perInch)} vert
+                  {measured.tapeSides > 0 && (
+                    <>
+                      {" "}
+                      · refined with {measured.tapeSides} tape-measured side{measured.tapeSides === 1 ? "" : "s"}
+                    </>
+                  )}
+                </>
+              ) : (
+                <span className="warn">—</span>
+              )}
             </div>
+            {refDetect && refDetect.photoId === activePhotoId && refDetect.boxId === referenceBox?.id && (
+              <div>
+                <b>Auto-detected:</b> {Math.round(refDetect.confidence * 100)}% confidence — check the corners sit on
+                the {refPreset === "door" ? "door" : "sheet"}.
+              </div>
+            )}
+            {refDetect && refDetect.photoId === activePhotoId && refDetect.boxId === null && !referenceBox && (
+              <div className="warn">
+                Couldn&apos;t find the {refPreset === "door" ? "door" : "paper"} (best match{" "}
+                {Math.round(refDetect.confidence * 100)}%) — draw the reference by hand.
+              </div>
+            )}
+            {referenceAspectOff !== null && (
+              <div className="warn">
+                Reference shape is {Math.round(referenceAspectOff * 100)}% off the expected {showLength(refSize.w)}×
+                {showLength(refSize.h)} proportions — redraw it tightly, check the preset, or use 4-corner mode.
+              </div>
+            )}
+            {referenceBox?.quad && (
+              <div>
+                <b>Perspective:</b>{" "}
+                {homography ? "corrected from reference corners" : <span className="warn">invalid reference quad</span>}
+              </div>
+            )}
           </div>
 
           <hr />
@@ -500,23 +1806,221 @@ export default function App() {
           <div className="status">
             <div>
               <b>Windows marked:</b> {windowBoxes.length}
+              {windowBoxes.some((b) => countedQuantity(b) !== 1) && (
+                <> ({windowBoxes.reduce((n, b) => n + countedQuantity(b), 0)} counted)</>
+              )}
             </div>
             <div>
-              <b>Total SqFt:</b> {windowSqft ? round2(windowSqft) : <span className="warn">—</span>}
+              <b>Area on this photo:</b>{" "}
+              {photoSqft ? (
+                <>
+                  {showArea(photoSqft)} ± {showArea(measured.sqftError ?? 0)} {areaLabel}
+                </>
+              ) : (
+                <span className="warn">—</span>
+              )}
             </div>
+            {measured.tapeChecks.some((c) => c.inconsistent) && (
+              <div className="warn">
+                Tape measurements disagree with the reference — check the readings, the reference preset and how
+                tightly the reference is drawn.
+              </div>
+            )}
+            {measured.referenceTooSmall && (
+              <div className="warn">
+                The reference is small next to these windows, so any error in it is multiplied across them — use a
+                door or larger sheet, or zoom in to draw it tightly.
+              </div>
+            )}
+          </div>
+
+          <div className="row">
+            <label className="label">Annotated photo</label>
+            <select
+              className="input"
+              aria-label="Image format"
+              value={imageFormat}
+              onChange={(e) => setImageFormat(e.target.value as "image/png" | "image/jpeg")}
+            >
+              <option value="image/jpeg">JPEG</option>
+              <option value="image/png">PNG</option>
+            </select>
+            <button className="btn" onClick={() => exportAnnotatedPhoto(false)} disabled={!imageUrl || imageBusy}>
+              {imageBusy ? "Rendering…" : "Download image"}
+            </button>
+            {CAN_SHARE && (
+              <button className="btn" onClick={() => exportAnnotatedPhoto(true)} disabled={!imageUrl || imageBusy}>
+                Share
+              </button>
+            )}
           </div>
 
           {windowBoxes.length > 0 && (
             <div className="list">
               {windowBoxes.map((b) => (
-                <div key={b.id} className="listRow">
+                <div
+                  key={b.id}
+                  className={b.id === selectedId ? "listRow selected" : "listRow"}
+                  onClick={() => setSelectedId(b.id)}
+                >
                   <div>
-                    <b>{b.label}</b>
+                    <input
+                      className="input labelInput"
+                      value={b.label}
+                      aria-label="Window label"
+                      onChange={(e) => renameBox(b.id, e.target.value)}
+                    />
                     <div className="muted">
                       {Math.round(b.w)}×{Math.round(b.h)} px
+                      {windowSizeNote(b)}
                     </div>
+                    <div className="row attrs" onClick={(e) => e.stopPropagation()}>
+                      {!b.quad && !b.points && (
+                        <select
+                          className="input"
+                          aria-label="Shape"
+                          value={boxShape(b)}
+                          onChange={(e) => setBoxShape(b.id, e.target.value as WindowShape)}
+                        >
+                          {(Object.entries(WINDOW_SHAPES) as [WindowShape, string][])
+                            .filter(([shape]) => shape !== "polygon")
+                            .map(([shape, name]) => (
+                              <option key={shape} value={shape}>
+                                {name}
+                              </option>
+                            ))}
+                        </select>
+                      )}
+                      <select
+                        className="input"
+                        aria-label="Product"
+                        value={windowAttrs(b).productId || priceBook.products[0]?.id}
+                        onChange={(e) => updateWindowAttrs(b.id, { productId: e.target.value })}
+                      >
+                        {priceBook.products.map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.name}
+                          </option>
+                        ))}
+                      </select>
+                      <label className="muted">
+                        floor{" "}
+                        <input
+                          className="input num"
+                          type="number"
+                          min={1}
+                          value={windowAttrs(b).floor}
+                          onChange={(e) => updateWindowAttrs(b.id, { floor: countInput(e.target.value) })}
+                        />
+                      </label>
+                      <select
+                        className="input"
+                        aria-label="Glass"
+                        value={windowAttrs(b).panes}
+                        onChange={(e) => updateWindowAttrs(b.id, { panes: Number(e.target.value) })}
+                      >
+                        <option value={1}>Single pane</option>
+                        <option value={2}>Double pane</option>
+                        <option value={3}>Triple pane</option>
+                      </select>
+                      <label className="muted">
+                        ×{" "}
+                        <input
+                          className="input num"
+                          type="number"
+                          min={1}
+                          aria-label="Quantity"
+                          value={windowAttrs(b).quantity}
+                          onChange={(e) => updateWindowAttrs(b.id, { quantity: countInput(e.target.value) })}
+                        />
+                      </label>
+                      <label className="muted">
+                        <input
+                          type="checkbox"
+                          checked={windowAttrs(b).excluded}
+                          onChange={(e) => updateWindowAttrs(b.id, { excluded: e.target.checked })}
+                        />{" "}
+                        exclude
+                      </label>
+                    </div>
+                    <div className="row attrs" onClick={(e) => e.stopPropagation()}>
+                      <label className="muted">
+                        lites{" "}
+                        <input
+                          className="input num"
+                          type="number"
+                          min={1}
+                          aria-label="Lite rows"
+                          value={windowAttrs(b).liteRows}
+                          onChange={(e) => updateWindowAttrs(b.id, { liteRows: countInput(e.target.value) })}
+                        />{" "}
+                        ×{" "}
+                        <input
+                          className="input num"
+                          type="number"
+                          min={1}
+                          aria-label="Lite columns"
+                          value={windowAttrs(b).liteCols}
+                          onChange={(e) => updateWindowAttrs(b.id, { liteCols: countInput(e.target.value) })}
+                        />
+                      </label>
+                      <label className="muted">
+                        frame/mullion{" "}
+                        <input
+                          className="input num"
+                          type="number"
+                          min={0}
+                          step={LENGTH_UNITS[len].step}
+                          aria-label={`Frame and mullion width (${len})`}
+                          value={inputLength(windowAttrs(b).frameIn, len)}
+                          onChange={(e) => updateWindowAttrs(b.id, { frameIn: lengthInput(e.target.value) })}
+                        />{" "}
+                        {len}
+                      </label>
+                    </div>
+                    <div className="row attrs" onClick={(e) => e.stopPropagation()}>
+                      <label className="muted">
+                        tape{" "}
+                        <input
+                          className="input num"
+                          type="number"
+                          min={0}
+                          step={LENGTH_UNITS[len].step}
+                          placeholder="W"
+                          aria-label={`Tape-measured width (${len})`}
+                          value={inputLength(windowAttrs(b).measuredWIn, len) || ""}
+                          onChange={(e) => updateWindowAttrs(b.id, { measuredWIn: lengthInput(e.target.value) })}
+                        />{" "}
+                        ×{" "}
+                        <input
+                          className="input num"
+                          type="number"
+                          min={0}
+                          step={LENGTH_UNITS[len].step}
+                          placeholder="H"
+                          aria-label={`Tape-measured height (${len})`}
+                          value={inputLength(windowAttrs(b).measuredHIn, len) || ""}
+                          onChange={(e) => updateWindowAttrs(b.id, { measuredHIn: lengthInput(e.target.value) })}
+                        />{" "}
+                        {len}
+                      </label>
+                    </div>
+                    {measured.tapeChecks
+                      .filter((c) => c.boxId === b.id && c.inconsistent)
+                      .map((c) => (
+                        <div key={c.boxId} className="warn">
+                          The reference reads {showLength(c.photoWIn)}×{showLength(c.photoHIn)} {len},{" "}
+                          {Math.round(c.off * 100)}% off the tape
+                        </div>
+                      ))}
                   </div>
-                  <button className="link" onClick={() => deleteBox(b.id)}>
+                  <button
+                    className="link"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteBox(b.id);
+                    }}
+                  >
                     remove
                   </button>
                 </div>
@@ -542,52 +2046,117 @@ export default function App() {
         <section className="card">
           <h2>Retail & Commission</h2>
 
-          {(!windowSqft || !pixelsPerInch) ? (
+          {photoRollup.length > 0 && (
+            <div className="list">
+              {Array.from(elevationRollup.entries()).map(([elevation, sqft]) => (
+                <div key={elevation} className="listRow">
+                  <b>{ELEVATIONS[elevation]}</b>
+                  <span>
+                    {showArea(sqft)} {areaLabel}
+                  </span>
+                </div>
+              ))}
+              {uncalibratedPhotos.map(({ photo }) => (
+                <div key={photo.id} className="listRow">
+                  <b>{photoTitle(photo)}</b>
+                  <span className="warn">not counted — draw a reference</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="row">
+            <label className="label">Price book</label>
+            <select
+              className="input"
+              value={priceBook.id}
+              onChange={(e) => updateJob({ priceBookId: e.target.value })}
+            >
+              {priceBooks.map((b) => (
+                <option key={b.id} value={b.id}>
+                  {b.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="row">
+            <label className="label">Price on</label>
+            <select
+              className="input"
+              value={job.areaBasis}
+              onChange={(e) => updateJob({ areaBasis: e.target.value as AreaBasis })}
+            >
+              <option value="opening">Rough opening (outer frame)</option>
+              <option value="glass">Glass only (less frame and mullions)</option>
+            </select>
+          </div>
+
+          {!quote ? (
             <div className="empty">
               Draw a <b>reference</b> + at least one <b>window</b> to generate pricing.
             </div>
           ) : (
             (() => {
-              const sqft = windowSqft;
-
-              const SOLAR_PER_SQFT = 12;
-              const RETAIL_LOW_PER_SQFT = 14;
-              const RETAIL_HIGH_PER_SQFT = 15;
-
-              const solarTotal = sqft * SOLAR_PER_SQFT;
-              const retailLowTotal = sqft * RETAIL_LOW_PER_SQFT;
-              const retailHighTotal = sqft * RETAIL_HIGH_PER_SQFT;
-
-              const commissionLow = retailLowTotal - solarTotal;
-              const commissionHigh = retailHighTotal - solarTotal;
-
-              const dollars = (n: number) => `$${Math.round(n).toLocaleString()}`;
+              const rateUnit = AREA_UNITS[priceBook.areaUnit].rate;
+              const rateNote = quote.lines
+                .map(({ product: p }) => `${p.name} $${p.retailLowPerSqft}–$${p.retailHighPerSqft}/${rateUnit}`)
+                .join(", ");
 
               return (
                 <div className="result">
                   <div className="kpi">
-                    <div className="kpiLabel">Estimated window area</div>
-                    <div className="kpiValue">{round2(sqft)} sq ft</div>
+                    <div className="kpiLabel">
+                      Estimated {job.areaBasis === "glass" ? "glass" : "window"} area (all photos)
+                    </div>
+                    <div className="kpiValue">
+                      {showArea(quote.sqft)} ± {showArea(jobSqftError)} {areaLabel}
+                    </div>
+                    <div className="muted">
+                      Likely {showArea(Math.max(0, quote.sqft - jobSqftError))} –{" "}
+                      {showArea(quote.sqft + jobSqftError)} {areaLabel}, from how precisely the references and windows
+                      are marked
+                    </div>
                   </div>
 
                   <div className="kpi">
                     <div className="kpiLabel">Suggested retail range</div>
                     <div className="kpiValue">
-                      {dollars(retailLowTotal)} – {dollars(retailHighTotal)}
-                    </div>
-                    <div className="muted">
-                      ${RETAIL_LOW_PER_SQFT}–${RETAIL_HIGH_PER_SQFT}/sqft
+                      {dollars(quote.totalLow)} – {dollars(quote.totalHigh)}
                     </div>
+                    {measuredRetail && (
+                      <div className={measuredRetail.rel > HIGH_ERROR ? "warn" : "muted"}>
+                        Allowing for measurement error (±{Math.round(measuredRetail.rel * 100)}%):{" "}
+                        {dollars(measuredRetail.low)} – {dollars(measuredRetail.high)}
+                      </div>
+                    )}
+                    {quote.lines.map((l) => (
+                      <div key={l.product.id} className="muted">
+                        {l.product.name}: {showArea(l.sqft)} {areaLabel} · {l.windows} window
+                        {l.windows === 1 ? "" : "s"} ·{" "}
+                        {dollars(l.retailLow)} – {dollars(l.retailHigh)}
+                      </div>
+                    ))}
+                    {quote.discountPct > 0 && <div className="muted">Volume discount {quote.discountPct}%</div>}
+                    {quote.installFees > 0 && <div className="muted">Installation {dollars(quote.installFees)}</div>}
+                    {quote.liftFees > 0 && <div className="muted">Lift surcharge {dollars(quote.liftFees)}</div>}
+                    {quote.paneFees > 0 && <div className="muted">Multi-pane glass {dollars(quote.paneFees)}</div>}
+                    {quote.minimumApplied && (
+                      <div className="muted">Minimum job charge {dollars(priceBook.minimumCharge)} applied</div>
+                    )}
+                    {priceBook.taxRate > 0 && (
+                      <div className="muted">
+                        Includes {priceBook.taxRate}% tax ({dollars(quote.taxLow)} – {dollars(quote.taxHigh)})
+                      </div>
+                    )}
                   </div>
 
                   <div className="kpi">
                     <div className="kpiLabel">Estimated commission</div>
                     <div className="kpiValue">
-                      {dollars(commissionLow)} – {dollars(commissionHigh)}
-                    </div>
-                    <div className="muted">
-                      Commission = Retail − Solar (${SOLAR_PER_SQFT}/sqft)
+                      {dollars(quote.commissionLow)} – {dollars(quote.commissionHigh)}
                     </div>
+                    <div className="muted">Commission = Retail − Cost ({dollars(quote.cost)}), before tax</div>
                   </div>
 
                   <button
@@ -595,13 +2164,16 @@ export default function App() {
                     onClick={() => {
                       const lines = [
                         `Window SqFt Estimate`,
-                        `SqFt: ${round2(sqft)}`,
-                        `Suggested retail: ${dollars(retailLowTotal)} – ${dollars(
-                          retailHighTotal
-                        )} (${RETAIL_LOW_PER_SQFT}–${RETAIL_HIGH_PER_SQFT}/sqft)`,
-                        `Estimated commission: ${dollars(commissionLow)} – ${dollars(
-                          commissionHigh
-                        )} (Retail − Solar @ $${SOLAR_PER_SQFT}/sqft)`,
+                        `Area: ${showArea(quote.sqft)} ± ${showArea(jobSqftError)} ${areaLabel}`,
+                        `Suggested retail: ${dollars(quote.totalLow)} – ${dollars(quote.totalHigh)} (${rateNote})`,
+                        ...(measuredRetail
+                          ? [
+                              `With measurement error: ${dollars(measuredRetail.low)} – ${dollars(measuredRetail.high)}`,
+                            ]
+                          : []),
+                        `Estimated commission: ${dollars(quote.commissionLow)} – ${dollars(
+                          quote.commissionHigh
+                        )} (Retail − Cost)`,
                       ];
                       navigator.clipboard.writeText(lines.join("\n"));
                       alert("Copied estimate to clipboard.");
@@ -609,16 +2181,29 @@ export default function App() {
                   >
                     Copy estimate
                   </button>
+                  <button className="btn" onClick={downloadCustomerQuote} disabled={pdfBusy}>
+                    {pdfBusy ? "Building PDF…" : "Customer quote (PDF)"}
+                  </button>
                 </div>
               );
             })()
           )}
         </section>
+
+        <CommissionPanel
+          deal={job.deal}
+          quote={quote}
+          taxRate={priceBook.taxRate}
+          onChange={(deal) => updateJob({ deal })}
+        />
+
+        <WindowSchedule job={job} markup={markup} priceBook={priceBook} />
       </div>
 
       <footer className="footer">
         Prototype notes: This is a “rough estimate” tool. Accuracy depends on a clean reference box and reasonably flat
-        photo perspective. Next iteration can add multi-photos per room/elevation + averaging.
+        photo perspective (use 4-corner mode for angled shots). Each photo needs its own reference. The ± ranges assume
+        each edge is marked within {MARK_ERROR_PX} px.
       </footer>
     </div>
   );
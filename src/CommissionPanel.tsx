@@ -0,0 +1,153 @@
+import { useMemo } from "react";
+import { uid } from "./boxes";
+import { computeCommission } from "./commission";
+import type { Deal, Split } from "./commission";
+import { dollars } from "./pricing";
+import type { Quote } from "./pricing";
+
+type Props = {
+  deal: Deal;
+  quote: Quote | null;
+  taxRate: number;
+  onChange: (deal: Deal) => void;
+};
+
+function num(value: string) {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.max(0, n) : 0;
+}
+
+export default function CommissionPanel({ deal, quote, taxRate, onChange }: Props) {
+  const result = useMemo(
+    () => (quote && deal.salePrice > 0 ? computeCommission(deal, quote, taxRate) : null),
+    [deal, quote, taxRate]
+  );
+
+  const fees = quote ? quote.installFees + quote.liftFees + quote.paneFees : 0;
+
+  function updateSplit(id: string, patch: Partial<Split>) {
+    onChange({ ...deal, splits: deal.splits.map((s) => (s.id === id ? { ...s, ...patch } : s)) });
+  }
+
+  function addSplit() {
+    const used = deal.splits.reduce((n, s) => n + s.pct, 0);
+    const name = deal.splits.length === 1 ? "Setter" : `Team member ${deal.splits.length + 1}`;
+    onChange({ ...deal, splits: [...deal.splits, { id: uid(), name, pct: Math.max(0, 100 - used) }] });
+  }
+
+  function removeSplit(id: string) {
+    onChange({ ...deal, splits: deal.splits.filter((s) => s.id !== id) });
+  }
+
+  return (
+    <section className="card">
+      <h2>Commission & payouts</h2>
+      <div className="muted">Internal — never shown on the customer quote.</div>
+
+      {!quote ? (
+        <div className="empty">Price the job first; the sale is checked against its retail range.</div>
+      ) : (
+        <>
+          <div className="row">
+            <label className="label">Agreed price (before tax)</label>
+            <input
+              className="input num"
+              type="number"
+              min={0}
+              step={10}
+              placeholder={String(Math.round(quote.subtotalHigh))}
+              value={deal.salePrice || ""}
+              onChange={(e) => onChange({ ...deal, salePrice: num(e.target.value) })}
+            />
+            <button className="btn" onClick={() => onChange({ ...deal, salePrice: Math.round(quote.subtotalLow) })}>
+              Low {dollars(quote.subtotalLow)}
+            </button>
+            <button className="btn" onClick={() => onChange({ ...deal, salePrice: Math.round(quote.subtotalHigh) })}>
+              High {dollars(quote.subtotalHigh)}
+            </button>
+          </div>
+          {result?.belowFloor && (
+            <div className="warn">
+              Below the lowest suggested retail of {dollars(result.floor)} — get a manager&apos;s approval first.
+            </div>
+          )}
+
+          <div className="row">
+            <label className="label">Financing fee (%)</label>
+            <input
+              className="input num"
+              type="number"
+              min={0}
+              step={0.5}
+              value={deal.financingPct}
+              onChange={(e) => onChange({ ...deal, financingPct: num(e.target.value) })}
+            />
+            <span className="muted">of the financed amount, tax included; 0 for cash</span>
+          </div>
+
+          <div className="list">
+            {deal.splits.map((s) => (
+              <div key={s.id} className="listRow">
+                <input
+                  className="input labelInput"
+                  aria-label="Team member"
+                  value={s.name}
+                  onChange={(e) => updateSplit(s.id, { name: e.target.value })}
+                />
+                <label className="muted">
+                  <input
+                    className="input num"
+                    type="number"
+                    min={0}
+                    max={100}
+                    aria-label={`${s.name} share (%)`}
+                    value={s.pct}
+                    onChange={(e) => updateSplit(s.id, { pct: Math.min(100, num(e.target.value)) })}
+                  />{" "}
+                  %
+                </label>
+                <b>{result ? dollars(result.payouts.find((p) => p.split.id === s.id)?.amount ?? 0) : "—"}</b>
+                {deal.splits.length > 1 && (
+                  <button className="link" onClick={() => removeSplit(s.id)}>
+                    remove
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="row">
+            <button className="btn" onClick={addSplit}>
+              Add team member
+            </button>
+          </div>
+
+          {!result ? (
+            <div className="empty">Enter the agreed price to see each person&apos;s payout.</div>
+          ) : (
+            <div className="status">
+              <div>
+                <b>Sale:</b> {dollars(deal.salePrice)}
+                {taxRate > 0 && <> + {dollars((deal.salePrice * taxRate) / 100)} tax</>}
+              </div>
+              <div>
+                <b>Less:</b> film {dollars(quote.cost)}
+                {fees > 0 && <> · install/lift/glazing {dollars(fees)}</>}
+                {result.financingFee > 0 && <> · financing {dollars(result.financingFee)}</>}
+              </div>
+              <div>
+                <b>Commission pool:</b>{" "}
+                {result.pool < 0 ? <span className="warn">{dollars(result.pool)}</span> : dollars(result.pool)}
+              </div>
+              {Math.abs(result.splitPct - 100) > 1e-9 && (
+                <div className="warn">
+                  Splits add up to {result.splitPct}% — {dollars(Math.abs(result.unassigned))}{" "}
+                  {result.splitPct < 100 ? "unassigned" : "over-assigned"}.
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
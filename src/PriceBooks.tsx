@@ -0,0 +1,315 @@
+import { useState } from "react";
+import type { ChangeEvent } from "react";
+import { uid } from "./boxes";
+import { DEFAULT_PRICE_BOOK_ID, createPriceBook } from "./pricing";
+import type { PriceBook, Product, VolumeTier } from "./pricing";
+import { AREA_UNITS, toSqft } from "./units";
+import type { AreaUnit } from "./units";
+
+type Props = {
+  books: PriceBook[];
+  onSave: (book: PriceBook) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+};
+
+// converted rates and tiers keep full precision so switching units back and forth doesn't drift;
+// only the inputs round them
+function shown(n: number) {
+  return Number(n.toFixed(2));
+}
+
+function num(e: ChangeEvent<HTMLInputElement>) {
+  const n = Number(e.target.value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+export default function PriceBooks({ books, onSave, onDelete, onClose }: Props) {
+  const [editingId, setEditingId] = useState<string>(books[0]?.id ?? "");
+  const book = books.find((b) => b.id === editingId) ?? books[0];
+
+  function addBook() {
+    const created = createPriceBook(`Price book ${books.length + 1}`);
+    onSave(created);
+    setEditingId(created.id);
+  }
+
+  function duplicateBook() {
+    if (!book) return;
+    const copy: PriceBook = {
+      ...book,
+      id: uid(),
+      name: `${book.name} (copy)`,
+      products: book.products.map((p) => ({ ...p, id: uid() })),
+    };
+    onSave(copy);
+    setEditingId(copy.id);
+  }
+
+  function removeBook() {
+    if (!book || book.id === DEFAULT_PRICE_BOOK_ID) return;
+    if (!confirm(`Delete price book "${book.name}"? Jobs using it fall back to the default book.`)) return;
+    onDelete(book.id);
+    setEditingId(DEFAULT_PRICE_BOOK_ID);
+  }
+
+  function update(patch: Partial<PriceBook>) {
+    if (book) onSave({ ...book, ...patch });
+  }
+
+  function updateProduct(id: string, patch: Partial<Product>) {
+    if (!book) return;
+    update({ products: book.products.map((p) => (p.id === id ? { ...p, ...patch } : p)) });
+  }
+
+  // re-express the rates and tiers so the book still prices jobs the same
+  function changeAreaUnit(unit: AreaUnit) {
+    if (!book || unit === book.areaUnit) return;
+    const k = toSqft(1, unit) / toSqft(1, book.areaUnit); // one new unit, in old units
+    update({
+      areaUnit: unit,
+      products: book.products.map((p) => ({
+        ...p,
+        costPerSqft: p.costPerSqft * k,
+        retailLowPerSqft: p.retailLowPerSqft * k,
+        retailHighPerSqft: p.retailHighPerSqft * k,
+      })),
+      volumeTiers: book.volumeTiers.map((t) => ({ ...t, minSqft: t.minSqft / k })),
+    });
+  }
+
+  function updateTier(i: number, patch: Partial<VolumeTier>) {
+    if (!book) return;
+    update({ volumeTiers: book.volumeTiers.map((t, j) => (j === i ? { ...t, ...patch } : t)) });
+  }
+
+  return (
+    <section className="card">
+      <div className="row">
+        <h2>Price books</h2>
+        <button className="btn" onClick={onClose}>
+          Back to estimate
+        </button>
+      </div>
+
+      <div className="row">
+        <select className="input" value={book?.id ?? ""} onChange={(e) => setEditingId(e.target.value)}>
+          {books.map((b) => (
+            <option key={b.id} value={b.id}>
+              {b.name}
+            </option>
+          ))}
+        </select>
+        <button className="btn" onClick={addBook}>
+          New
+        </button>
+        <button className="btn" onClick={duplicateBook} disabled={!book}>
+          Duplicate
+        </button>
+        <button className="btn" onClick={removeBook} disabled={!book || book.id === DEFAULT_PRICE_BOOK_ID}>
+          Delete
+        </button>
+      </div>
+
+      {book && (
+        <>
+          <div className="row">
+            <label className="label">Name</label>
+            <input className="input" value={book.name} onChange={(e) => update({ name: e.target.value })} />
+          </div>
+          <div className="row">
+            <label className="label">Business name on quotes</label>
+            <input
+              className="input"
+              value={book.companyName}
+              onChange={(e) => update({ companyName: e.target.value })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Phone / email on quotes</label>
+            <input
+              className="input"
+              value={book.companyContact}
+              onChange={(e) => update({ companyContact: e.target.value })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Minimum job charge ($)</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              value={book.minimumCharge}
+              onChange={(e) => update({ minimumCharge: num(e) })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Install fee per window ($)</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              value={book.installFeePerWindow}
+              onChange={(e) => update({ installFeePerWindow: num(e) })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Lift surcharge per upper-floor window ($)</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              value={book.liftSurchargePerWindow}
+              onChange={(e) => update({ liftSurchargePerWindow: num(e) })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Surcharge per pane past the first, per window ($)</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              value={book.surchargePerExtraPane}
+              onChange={(e) => update({ surchargePerExtraPane: num(e) })}
+            />
+          </div>
+          <div className="row">
+            <label className="label">Tax rate (%)</label>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              step={0.01}
+              value={book.taxRate}
+              onChange={(e) => update({ taxRate: num(e) })}
+            />
+          </div>
+
+          <div className="row">
+            <label className="label">Rates per</label>
+            <select
+              className="input"
+              value={book.areaUnit}
+              onChange={(e) => changeAreaUnit(e.target.value as AreaUnit)}
+            >
+              {Object.entries(AREA_UNITS).map(([key, u]) => (
+                <option key={key} value={key}>
+                  {u.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <h2>Products ($/{AREA_UNITS[book.areaUnit].rate})</h2>
+          <div className="list">
+            {book.products.map((p) => (
+              <div key={p.id} className="listRow">
+                <input
+                  className="input"
+                  aria-label="Product name"
+                  value={p.name}
+                  onChange={(e) => updateProduct(p.id, { name: e.target.value })}
+                />
+                <label className="muted">
+                  cost{" "}
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={shown(p.costPerSqft)}
+                    onChange={(e) => updateProduct(p.id, { costPerSqft: num(e) })}
+                  />
+                </label>
+                <label className="muted">
+                  retail{" "}
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={shown(p.retailLowPerSqft)}
+                    onChange={(e) => updateProduct(p.id, { retailLowPerSqft: num(e) })}
+                  />
+                  –
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={shown(p.retailHighPerSqft)}
+                    onChange={(e) => updateProduct(p.id, { retailHighPerSqft: num(e) })}
+                  />
+                </label>
+                <button
+                  className="link"
+                  disabled={book.products.length === 1}
+                  onClick={() => update({ products: book.products.filter((x) => x.id !== p.id) })}
+                >
+                  remove
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            className="btn"
+            onClick={() =>
+              update({
+                products: [
+                  ...book.products,
+                  { id: uid(), name: "New product", costPerSqft: 0, retailLowPerSqft: 0, retailHighPerSqft: 0 },
+                ],
+              })
+            }
+          >
+            Add product
+          </button>
+
+          <h2>Volume tiers</h2>
+          <div className="muted">Discount off product retail once the job reaches the tier's area.</div>
+          <div className="list">
+            {book.volumeTiers.map((t, i) => (
+              <div key={i} className="listRow">
+                <label className="muted">
+                  from{" "}
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={shown(t.minSqft)}
+                    onChange={(e) => updateTier(i, { minSqft: num(e) })}
+                  />{" "}
+                  {AREA_UNITS[book.areaUnit].label}
+                </label>
+                <label className="muted">
+                  <input
+                    className="input"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={t.discountPct}
+                    onChange={(e) => updateTier(i, { discountPct: num(e) })}
+                  />{" "}
+                  % off
+                </label>
+                <button
+                  className="link"
+                  onClick={() => update({ volumeTiers: book.volumeTiers.filter((_, j) => j !== i) })}
+                >
+                  remove
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            className="btn"
+            onClick={() => update({ volumeTiers: [...book.volumeTiers, { minSqft: 0, discountPct: 0 }] })}
+          >
+            Add tier
+          </button>
+        </>
+      )}
+    </section>
+  );
+}
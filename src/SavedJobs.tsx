@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from "react";
+import type { ChangeEvent } from "react";
+import { deleteJob, listJobs, saveJob } from "./db";
+import { downloadBlob, fileSlug } from "./download";
+import { JobFileError, exportJob, parseJobFile } from "./jobFile";
+import { allBoxes, duplicateJob, jobTitle } from "./jobs";
+import type { Job } from "./jobs";
+import type { PriceBook } from "./pricing";
+
+type Props = {
+  currentJobId: string;
+  priceBooks: PriceBook[];
+  onOpen: (job: Job) => void;
+  onNew: () => void;
+  onClose: () => void;
+  onDeleted: (id: string) => void;
+  onImportPriceBook: (book: PriceBook) => void;
+};
+
+export default function SavedJobs({
+  currentJobId,
+  priceBooks,
+  onOpen,
+  onNew,
+  onClose,
+  onDeleted,
+  onImportPriceBook,
+}: Props) {
+  const [jobs, setJobs] = useState<Job[] | null>(null);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  function refresh() {
+    listJobs()
+      .then((list) => {
+        setJobs(list);
+        setError("");
+      })
+      .catch(() => setError("Saved jobs are unavailable in this browser (private mode or storage disabled)."));
+  }
+
+  useEffect(refresh, []);
+
+  async function onDuplicate(job: Job) {
+    try {
+      await saveJob(duplicateJob(job));
+      refresh();
+    } catch {
+      setError("Could not duplicate the job — device storage may be full.");
+    }
+  }
+
+  async function onDelete(job: Job) {
+    if (!confirm(`Delete "${jobTitle(job)}"? This cannot be undone.`)) return;
+    try {
+      await deleteJob(job.id);
+      onDeleted(job.id);
+      refresh();
+    } catch {
+      setError("Could not delete the job.");
+    }
+  }
+
+  async function onExport(job: Job) {
+    try {
+      const text = await exportJob(job, priceBooks.find((b) => b.id === job.priceBookId));
+      downloadBlob(new Blob([text], { type: "application/json" }), `job-${fileSlug(job.customerName, "estimate")}-${job.date}.json`);
+    } catch {
+      setError("Could not export the job.");
+    }
+  }
+
+  async function onImportFile(e: ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setNotice("");
+    try {
+      const { job, priceBook } = parseJobFile(await file.text());
+      let imported = job;
+      // same id already on this device: replace it only if asked, otherwise keep both
+      if (jobs?.some((j) => j.id === job.id)) {
+        if (!confirm(`"${jobTitle(job)}" is already saved on this device. Replace it with the imported copy?`)) {
+          imported = duplicateJob(job);
+        }
+      }
+      // the job's price book comes along if this device doesn't have it yet
+      if (priceBook && !priceBooks.some((b) => b.id === priceBook.id)) onImportPriceBook(priceBook);
+      await saveJob(imported);
+      if (imported.id === currentJobId) onOpen(imported);
+      setError("");
+      setNotice(`Imported "${jobTitle(imported)}".`);
+      refresh();
+    } catch (err) {
+      setError(err instanceof JobFileError ? err.message : "Could not import the job — device storage may be full.");
+    }
+  }
+
+  return (
+    <section className="card">
+      <div className="row">
+        <h2>Saved jobs</h2>
+        <button className="btnPrimary" onClick={onNew}>
+          New estimate
+        </button>
+        <button className="btn" onClick={() => fileRef.current?.click()}>
+          Import job…
+        </button>
+        <input ref={fileRef} type="file" accept=".json,application/json" hidden onChange={onImportFile} />
+        <button className="btn" onClick={onClose}>
+          Back to current
+        </button>
+      </div>
+
+      {error && <div className="warn">{error}</div>}
+      {notice && <div className="muted">{notice}</div>}
+
+      {jobs && jobs.length === 0 && (
+        <div className="empty">No saved jobs yet. Estimates are saved on this device automatically as you work.</div>
+      )}
+
+      {jobs && jobs.length > 0 && (
+        <div className="list">
+          {jobs.map((job) => {
+            const windows = allBoxes(job.markup).filter((b) => b.type === "window").length;
+            return (
+              <div key={job.id} className={job.id === currentJobId ? "listRow selected" : "listRow"}>
+                <div>
+                  <b>{jobTitle(job)}</b>
+                  <div className="muted">
+                    {job.address && <>{job.address} · </>}
+                    {job.date} · {job.photos.length} photo{job.photos.length === 1 ? "" : "s"} · {windows} window
+                    {windows === 1 ? "" : "s"}
+                  </div>
+                  <div className="muted">Last edited {new Date(job.updatedAt).toLocaleString()}</div>
+                </div>
+                <div className="row">
+                  <button className="link" onClick={() => onOpen(job)}>
+                    open
+                  </button>
+                  <button className="link" onClick={() => onExport(job)}>
+                    export
+                  </button>
+                  <button className="link" onClick={() => onDuplicate(job)}>
+                    duplicate
+                  </button>
+                  <button className="link" onClick={() => onDelete(job)}>
+                    delete
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react";
+import { downloadBlob, fileSlug } from "./download";
+import type { Job, Markup } from "./jobs";
+import type { PriceBook } from "./pricing";
+import {
+  DEFAULT_ROLL_LENGTH_IN,
+  ROUNDING_INCREMENTS,
+  STANDARD_ROLL_WIDTHS,
+  cutListCsv,
+  planCutList,
+  scheduleCsv,
+  windowSchedule,
+} from "./schedule";
+import { LENGTH_UNITS, fromInches, inputLength, lengthUnit, toInches } from "./units";
+
+type Props = {
+  job: Job;
+  markup: Markup;
+  priceBook: PriceBook;
+};
+
+export default function WindowSchedule({ job, markup, priceBook }: Props) {
+  const [incrementIndex, setIncrementIndex] = useState(1); // 1/4" or 5 mm
+  const [cutList, setCutList] = useState(false);
+  const [margin, setMargin] = useState(1); // in
+  const [rollWidths, setRollWidths] = useState<number[]>(STANDARD_ROLL_WIDTHS);
+  const [rollLength, setRollLength] = useState(DEFAULT_ROLL_LENGTH_IN);
+
+  const len = lengthUnit(job.units);
+  const long = lengthUnit(job.units, true);
+  const increments = ROUNDING_INCREMENTS[job.units];
+  const increment = increments[incrementIndex].value;
+  const rows = useMemo(() => windowSchedule(job, markup, priceBook, increment), [job, markup, priceBook, increment]);
+  const plans = useMemo(
+    () => (cutList ? planCutList(rows, margin, rollWidths, rollLength) : []),
+    [cutList, rows, margin, rollWidths, rollLength]
+  );
+
+  function toggleWidth(w: number) {
+    setRollWidths((prev) => (prev.includes(w) ? prev.filter((x) => x !== w) : [...prev, w].sort((a, b) => a - b)));
+  }
+
+  function download() {
+    const name = `${fileSlug(job.customerName, "estimate")}-${job.date}`;
+    const csv = cutList ? cutListCsv(plans, margin, job.units) : scheduleCsv(rows, job.units);
+    downloadBlob(new Blob([csv], { type: "text/csv" }), `${cutList ? "cut-list" : "schedule"}-${name}.csv`);
+  }
+
+  return (
+    <section className="card">
+      <h2>Window schedule</h2>
+
+      {rows.length === 0 ? (
+        <div className="empty">Measured windows show up here for ordering film.</div>
+      ) : (
+        <>
+          <div className="row">
+            <label className="label">Round sizes up to</label>
+            <select
+              className="input"
+              value={incrementIndex}
+              onChange={(e) => setIncrementIndex(Number(e.target.value))}
+            >
+              {increments.map((r, i) => (
+                <option key={r.label} value={i}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="row">
+            <label className="muted">
+              <input type="checkbox" checked={cutList} onChange={(e) => setCutList(e.target.checked)} /> Cut list
+              with rolls required
+            </label>
+          </div>
+
+          {cutList && (
+            <>
+              <div className="row">
+                <label className="label">Waste margin per side ({len})</label>
+                <input
+                  className="input num"
+                  type="number"
+                  min={0}
+                  step={LENGTH_UNITS[len].step}
+                  value={inputLength(margin, len)}
+                  onChange={(e) => setMargin(toInches(Math.max(0, Number(e.target.value) || 0), len))}
+                />
+                <label className="label">Roll length ({long})</label>
+                <input
+                  className="input num"
+                  type="number"
+                  min={1}
+                  step={LENGTH_UNITS[long].step}
+                  value={inputLength(rollLength, long)}
+                  onChange={(e) => setRollLength(toInches(Math.max(1, Number(e.target.value) || 1), long))}
+                />
+              </div>
+              <div className="row">
+                <label className="label">Roll widths ({len})</label>
+                {STANDARD_ROLL_WIDTHS.map((w) => (
+                  <label key={w} className="muted">
+                    <input type="checkbox" checked={rollWidths.includes(w)} onChange={() => toggleWidth(w)} />{" "}
+                    {Math.round(fromInches(w, len))}
+                  </label>
+                ))}
+              </div>
+
+              <div className="list">
+                {plans.map((l) => (
+                  <div key={l.product} className="listRow">
+                    <div>
+                      <b>{l.product}</b>
+                      <div className="muted">
+                        {l.cuts.length} cut{l.cuts.length === 1 ? "" : "s"}
+                      </div>
+                    </div>
+                    {l.best ? (
+                      <span>
+                        {l.best.rolls} × {Math.round(fromInches(l.best.rollWidth, len))} {len} roll
+                        {l.best.rolls === 1 ? "" : "s"} ({Math.ceil(fromInches(l.best.lengthIn, long))} {long}{" "}
+                        used, {Math.round(l.best.usePct)}% use)
+                      </span>
+                    ) : (
+                      <span className="warn">
+                        {rollWidths.length === 0
+                          ? "select at least one roll width"
+                          : "some cuts are wider than every selected roll"}
+                      </span>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          <div className="muted">
+            {rows.length} line{rows.length === 1 ? "" : "s"} · {rows.reduce((n, r) => n + r.quantity, 0)} windows
+          </div>
+          <button className="btn" onClick={download}>
+            {cutList ? "Download cut list (CSV)" : "Download schedule (CSV)"}
+          </button>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { TAPE_ERROR_IN, areaError, combinedError, lengthError, referenceTooSmall, scaleError } from "./accuracy";
+import type { Box } from "./boxes";
+
+const box = (w: number, h: number): Box => ({ id: "b", type: "window", label: "", x: 0, y: 0, w, h });
+
+describe("lengthError", () => {
+  it("shrinks as the length spans more pixels", () => {
+    expect(lengthError(100, 2)).toBeCloseTo((Math.SQRT2 * 2) / 100);
+    expect(lengthError(400, 2)).toBeCloseTo(lengthError(100, 2) / 4);
+    expect(lengthError(0, 2)).toBe(Infinity);
+  });
+});
+
+describe("areaError", () => {
+  it("combines the window's own edges with the reference scale on both axes", () => {
+    const scale = scaleError(box(85, 110), 2);
+    const e = areaError(box(240, 360), scale, { wIn: 0, hIn: 0 }, 2);
+    expect(e.own).toBeCloseTo(Math.hypot(lengthError(240, 2), lengthError(360, 2)));
+    expect(e.reference).toBeCloseTo(Math.hypot(lengthError(85, 2), lengthError(110, 2)));
+  });
+
+  it("swaps in the tape's precision on a measured side", () => {
+    const scale = scaleError(box(85, 110), 2);
+    const e = areaError(box(240, 360), scale, { wIn: 24, hIn: 0 }, 2);
+    expect(e.own).toBeCloseTo(Math.hypot(TAPE_ERROR_IN / 24, lengthError(360, 2)));
+    expect(e.reference).toBeCloseTo(scale.y);
+  });
+});
+
+describe("combinedError", () => {
+  it("adds shared reference error straight and marking error in quadrature", () => {
+    const items = [
+      { sqft: 10, error: { own: 0.03, reference: 0.05 } },
+      { sqft: 10, error: { own: 0.04, reference: 0.05 } },
+    ];
+    expect(combinedError(items)).toBeCloseTo(Math.hypot(Math.hypot(0.3, 0.4), 1));
+    expect(combinedError([])).toBe(0);
+  });
+});
+
+describe("referenceTooSmall", () => {
+  it("flags windows several times the reference's size", () => {
+    expect(referenceTooSmall(box(50, 60), [box(200, 230)])).toBe(false);
+    expect(referenceTooSmall(box(50, 60), [box(200, 300)])).toBe(true);
+  });
+});
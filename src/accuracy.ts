@@ -0,0 +1,71 @@
+import type { Box } from "./boxes";
+
+// how far a drawn edge typically lands from the real one, in image px
+export const MARK_ERROR_PX = 2;
+// a tape reading to the nearest 1/8"
+export const TAPE_ERROR_IN = 0.125;
+// windows this many times the reference's size multiply its error past usefulness
+export const REFERENCE_SPAN_LIMIT = 4;
+// relative area error above which an estimate deserves a warning
+export const HIGH_ERROR = 0.1;
+
+/**
+ * Relative error of a length spanning px pixels with both ends marked to
+ * ±markPx. Image resolution enters here: the same window spans fewer pixels
+ * in a smaller photo, so each marking slip counts for more.
+ */
+export function lengthError(px: number, markPx: number) {
+  return px > 0 ? (Math.SQRT2 * markPx) / px : Infinity;
+}
+
+/** Relative error of the pixels-per-inch on each axis, from the reference's size on screen. */
+export function scaleError(reference: Box, markPx = MARK_ERROR_PX) {
+  return { x: lengthError(reference.w, markPx), y: lengthError(reference.h, markPx) };
+}
+
+// own: the window's edges, independent per window; reference: shared by every window on the photo
+export type AreaError = { own: number; reference: number };
+
+/**
+ * Relative error of one window's area, split by source. A tape-measured side
+ * (inches, 0 = not measured) replaces both the marks and the scale on its axis.
+ */
+export function areaError(
+  window: Box,
+  scale: { x: number; y: number },
+  tape = { wIn: 0, hIn: 0 },
+  markPx = MARK_ERROR_PX
+): AreaError {
+  const axis = (px: number, scaleError: number, tapeIn: number) =>
+    tapeIn > 0
+      ? { own: TAPE_ERROR_IN / tapeIn, reference: 0 }
+      : { own: lengthError(px, markPx), reference: scaleError };
+  const w = axis(window.w, scale.x, tape.wIn);
+  const h = axis(window.h, scale.y, tape.hIn);
+  return { own: Math.hypot(w.own, h.own), reference: Math.hypot(w.reference, h.reference) };
+}
+
+export function totalError(e: AreaError) {
+  return Math.hypot(e.own, e.reference);
+}
+
+/**
+ * Absolute error of a sum of areas on one photo. Marking slips on different
+ * windows are independent and add in quadrature; a reference error scales
+ * every window the same way, so that part adds straight.
+ */
+export function combinedError(items: { sqft: number; error: AreaError }[]) {
+  let own = 0;
+  let reference = 0;
+  for (const { sqft, error } of items) {
+    own += (sqft * error.own) ** 2;
+    reference += sqft * error.reference;
+  }
+  return Math.hypot(Math.sqrt(own), reference);
+}
+
+/** A window much larger than the reference extrapolates the reference's error across it. */
+export function referenceTooSmall(reference: Box, windows: Box[]) {
+  const span = Math.max(reference.w, reference.h);
+  return windows.some((w) => Math.max(w.w, w.h) > REFERENCE_SPAN_LIMIT * span);
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { WINDOW_PALETTE, overlayLabel, windowColor } from "./annotate";
+import type { QuoteWindowRow } from "./quotePdf";
+
+const row: QuoteWindowRow = {
+  number: 3,
+  label: "Kitchen",
+  location: "Rear",
+  wIn: 36,
+  hIn: 48.04,
+  quantity: 2,
+  sqft: 24.02,
+  product: "Solar film",
+};
+
+describe("overlayLabel", () => {
+  it("gives size and area in inches and sq ft", () => {
+    expect(overlayLabel(row, "imperial")).toEqual({
+      number: 3,
+      name: "Kitchen ×2",
+      size: "36 × 48 in",
+      area: "24 sq ft",
+    });
+  });
+
+  it("gives size and area in cm and m² for metric jobs", () => {
+    const label = overlayLabel({ ...row, quantity: 1 }, "metric");
+    expect(label.name).toBe("Kitchen");
+    expect(label.size).toBe("91.4 × 122 cm");
+    expect(label.area).toBe("2.2 m²");
+  });
+});
+
+describe("windowColor", () => {
+  it("gives neighbouring windows different colours and cycles the palette", () => {
+    expect(windowColor(1)).not.toBe(windowColor(2));
+    expect(windowColor(1 + WINDOW_PALETTE.length)).toBe(windowColor(1));
+  });
+});
@@ -0,0 +1,259 @@
+import { boxShape } from "./boxes";
+import type { Box } from "./boxes";
+import { canvasFit } from "./preprocess";
+import type { QuoteWindowRow } from "./quotePdf";
+import { AREA_UNITS, areaUnit, fromInches, fromSqft, lengthUnit } from "./units";
+import type { UnitSystem } from "./units";
+
+export const REFERENCE_COLOR = "rgba(0,180,220,0.9)";
+export const WINDOW_COLOR = "rgba(255,200,0,0.9)";
+
+export function boxColor(b: Box) {
+  return b.type === "reference" ? REFERENCE_COLOR : WINDOW_COLOR;
+}
+
+/** Trace a box outline (quad, polygon or inscribed shape) in image px, scaled by k. */
+export function traceBox(ctx: CanvasRenderingContext2D, b: Box, k: number) {
+  ctx.beginPath();
+  const corners = b.quad ?? b.points;
+  if (corners) {
+    ctx.moveTo(corners[0].x * k, corners[0].y * k);
+    for (const p of corners.slice(1)) ctx.lineTo(p.x * k, p.y * k);
+    ctx.closePath();
+    return;
+  }
+
+  const x = b.x * k;
+  const y = b.y * k;
+  const w = b.w * k;
+  const h = b.h * k;
+  switch (boxShape(b)) {
+    case "ellipse":
+      ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+      break;
+    case "triangle":
+      ctx.moveTo(x + w / 2, y);
+      ctx.lineTo(x + w, y + h);
+      ctx.lineTo(x, y + h);
+      ctx.closePath();
+      break;
+    case "arch": {
+      // half-ellipse head on straight legs; a half-round when the box is twice as wide as tall
+      const rise = Math.min(h, w / 2);
+      ctx.moveTo(x, y + h);
+      ctx.lineTo(x, y + rise);
+      ctx.ellipse(x + w / 2, y + rise, w / 2, rise, 0, Math.PI, 0);
+      ctx.lineTo(x + w, y + h);
+      ctx.closePath();
+      break;
+    }
+    default:
+      ctx.rect(x, y, w, h);
+  }
+}
+
+/**
+ * Draw a photo with its boxes outlined and windows tagged by number, on an
+ * offscreen canvas no larger than maxSize on its long edge.
+ */
+export async function renderAnnotatedPhoto(
+  photo: Blob,
+  boxes: Box[],
+  numbers: Map<string, number>,
+  maxSize = 1600
+): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(photo);
+  const k = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * k);
+  canvas.height = Math.round(bitmap.height * k);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const unit = Math.max(2, Math.round(Math.max(canvas.width, canvas.height) / 400));
+  ctx.lineWidth = unit;
+  for (const b of boxes) {
+    ctx.strokeStyle = boxColor(b);
+    traceBox(ctx, b, k);
+    ctx.stroke();
+  }
+
+  // numbered tags at each window's top-left corner
+  const r = unit * 6;
+  ctx.font = `bold ${Math.round(r * 1.2)}px system-ui, sans-serif`;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  for (const b of boxes) {
+    const n = numbers.get(b.id);
+    if (n === undefined) continue;
+    const x = b.x * k + r;
+    const y = b.y * k + r;
+    ctx.fillStyle = WINDOW_COLOR;
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#000";
+    ctx.fillText(String(n), x, y);
+  }
+
+  return canvas;
+}
+
+// --- image export ---------------------------------------------------------
+
+// one colour per numbered window on exported photos, cycling past ten
+export const WINDOW_PALETTE = [
+  "#f5b700",
+  "#e4572e",
+  "#29bf12",
+  "#a846a0",
+  "#ff8c42",
+  "#3f88c5",
+  "#d7263d",
+  "#7dcfb6",
+  "#c5d86d",
+  "#f49cbb",
+];
+
+export function windowColor(number: number) {
+  return WINDOW_PALETTE[(number - 1) % WINDOW_PALETTE.length];
+}
+
+export type OverlayLabel = {
+  number: number;
+  name: string; // label, with the count when the box stands for several identical windows
+  size: string; // "36 × 48 in"
+  area: string; // "24 sq ft", for every window the box counts
+};
+
+const tenths = (n: number) => String(Math.round(n * 10) / 10);
+
+/** Overlay and legend text for a numbered window, in the job's units. */
+export function overlayLabel(row: QuoteWindowRow, units: UnitSystem): OverlayLabel {
+  const len = lengthUnit(units);
+  const area = areaUnit(units);
+  return {
+    number: row.number,
+    name: row.quantity > 1 ? `${row.label} ×${row.quantity}` : row.label,
+    size: `${tenths(fromInches(row.wIn, len))} × ${tenths(fromInches(row.hIn, len))} ${len}`,
+    area: `${tenths(fromSqft(row.sqft, area))} ${AREA_UNITS[area].label}`,
+  };
+}
+
+const LEGEND_ROW = 0.035; // legend line height, as a fraction of the photo's long side
+
+/**
+ * The photo at full resolution (within what a canvas allows) with each
+ * labelled window outlined and tinted in its own colour, tagged with its
+ * number and size, the reference highlighted, and a legend underneath.
+ */
+export async function renderPhotoExport(
+  photo: Blob,
+  boxes: Box[],
+  labels: Map<string, OverlayLabel>,
+  legend: { title: string; reference: string | null }
+): Promise<HTMLCanvasElement> {
+  const bitmap = await createImageBitmap(photo);
+  const entries = boxes.filter((b) => labels.has(b.id));
+  const legendRows = 1 + entries.length + (legend.reference ? 1 : 0);
+  const rowPx = Math.max(bitmap.width, bitmap.height) * LEGEND_ROW;
+  const k = canvasFit(bitmap.width, bitmap.height + (legendRows + 1) * rowPx);
+  const row = rowPx * k;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(bitmap.width * k);
+  const photoH = Math.round(bitmap.height * k);
+  canvas.height = photoH + Math.round((legendRows + 1) * row);
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, photoH);
+  bitmap.close();
+
+  const line = Math.max(2, row / 8);
+  const font = (px: number, bold = false) => `${bold ? "bold " : ""}${Math.round(px)}px system-ui, sans-serif`;
+  ctx.lineWidth = line;
+  ctx.lineJoin = "round";
+
+  for (const b of boxes) {
+    const label = labels.get(b.id);
+    if (b.type === "window" && !label) continue;
+    const color = label ? windowColor(label.number) : REFERENCE_COLOR;
+    traceBox(ctx, b, k);
+    ctx.globalAlpha = label ? 0.15 : 0.3;
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.globalAlpha = 1;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = label ? line : line * 1.5;
+    ctx.stroke();
+  }
+
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  const r = row * 0.45;
+  for (const b of entries) {
+    const label = labels.get(b.id)!;
+    // number tag at the top-left corner
+    ctx.fillStyle = windowColor(label.number);
+    ctx.beginPath();
+    ctx.arc(b.x * k + r, b.y * k + r, r, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = "#000";
+    ctx.font = font(r * 1.2, true);
+    ctx.fillText(String(label.number), b.x * k + r, b.y * k + r);
+
+    // size and area on a dark pill in the middle, shrunk to fit narrow windows
+    const cx = (b.x + b.w / 2) * k;
+    const cy = (b.y + b.h / 2) * k;
+    const base = row * 0.5;
+    ctx.font = font(base, true);
+    const textW = Math.max(ctx.measureText(label.size).width, ctx.measureText(label.area).width);
+    const size = base * Math.min(1, (b.w * k * 0.9) / (textW + base));
+    ctx.font = font(size, true);
+    const pillW = (textW * size) / base + size;
+    ctx.fillStyle = "rgba(0,0,0,0.65)";
+    ctx.fillRect(cx - pillW / 2, cy - size * 1.3, pillW, size * 2.6);
+    ctx.fillStyle = "#fff";
+    ctx.fillText(label.size, cx, cy - size * 0.6);
+    ctx.fillText(label.area, cx, cy + size * 0.6);
+  }
+
+  // legend
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, photoH, canvas.width, canvas.height - photoH);
+  ctx.textAlign = "left";
+  const x = row * 0.5;
+  let y = photoH + row;
+  ctx.fillStyle = "#000";
+  ctx.font = font(row * 0.55, true);
+  ctx.fillText(legend.title, x, y);
+  const swatch = (color: string) => {
+    ctx.fillStyle = color;
+    ctx.fillRect(x, y - row * 0.3, row * 0.6, row * 0.6);
+    ctx.fillStyle = "#000";
+  };
+  ctx.font = font(row * 0.5);
+  for (const b of entries) {
+    const label = labels.get(b.id)!;
+    y += row;
+    swatch(windowColor(label.number));
+    ctx.fillText(`${label.number}. ${label.name} — ${label.size} · ${label.area}`, x + row, y);
+  }
+  if (legend.reference) {
+    y += row;
+    swatch(REFERENCE_COLOR);
+    ctx.fillText(`Reference — ${legend.reference}`, x + row, y);
+  }
+
+  return canvas;
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type: "image/png" | "image/jpeg") {
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not save the image."))), type, 0.92)
+  );
+}
@@ -0,0 +1,157 @@
+import { distance, pointBounds, quadBounds } from "./geometry";
+import type { Point, Quad } from "./geometry";
+
+export type BoxType = "reference" | "window";
+
+// window outlines; all but polygons are inscribed in the box's x/y/w/h
+export type WindowShape = "rect" | "arch" | "ellipse" | "triangle" | "polygon";
+
+export const WINDOW_SHAPES: Record<WindowShape, string> = {
+  rect: "Rectangle",
+  arch: "Arch top",
+  ellipse: "Circle / ellipse",
+  triangle: "Triangle",
+  polygon: "Polygon",
+};
+
+// per-window details that drive pricing; missing fields take the defaults below
+export type WindowAttrs = {
+  productId: string; // "" = the price book's first product
+  floor: number; // 1 = ground floor; 2+ needs a lift
+  panes: number; // 1 single, 2 double, 3 triple glazed
+  quantity: number; // identical openings this box stands for
+  excluded: boolean; // drawn for reference but left out of totals
+  liteRows: number; // grid of lites (glass panes) separated by mullions
+  liteCols: number;
+  frameIn: number; // frame and mullion width, deducted for glass-only area
+  measuredWIn: number; // tape-measured width, overrides the photo; 0 = not measured
+  measuredHIn: number;
+};
+
+export const DEFAULT_WINDOW_ATTRS: WindowAttrs = {
+  productId: "",
+  floor: 1,
+  panes: 2,
+  quantity: 1,
+  excluded: false,
+  liteRows: 1,
+  liteCols: 1,
+  frameIn: 0,
+  measuredWIn: 0,
+  measuredHIn: 0,
+};
+
+export type Box = {
+  id: string;
+  type: BoxType;
+  label: string;
+  x: number; // in image pixel coords
+  y: number;
+  w: number;
+  h: number;
+  quad?: Quad; // four-corner markup; x/y/w/h then hold its bounds
+  shape?: WindowShape; // windows only; unset = rectangle
+  points?: Point[]; // polygon vertices; x/y/w/h then hold their bounds
+  attrs?: Partial<WindowAttrs>; // windows only
+};
+
+// rectangle edge/corner handles, or a quad corner index
+export type Handle = "n" | "s" | "e" | "w" | "ne" | "nw" | "se" | "sw" | number;
+
+export const MIN_BOX_PX = 10;
+
+export function boxShape(b: Box): WindowShape {
+  return b.shape ?? "rect";
+}
+
+export function windowAttrs(b: Box): WindowAttrs {
+  return { ...DEFAULT_WINDOW_ATTRS, ...b.attrs };
+}
+
+/** How many openings a window box contributes to totals. */
+export function countedQuantity(b: Box) {
+  const a = windowAttrs(b);
+  return a.excluded ? 0 : Math.max(0, a.quantity);
+}
+
+export function uid() {
+  return Math.random().toString(16).slice(2) + "-" + Date.now().toString(16);
+}
+
+function rectHandles(b: Box): [Handle, Point][] {
+  const cx = b.x + b.w / 2;
+  const cy = b.y + b.h / 2;
+  const r = b.x + b.w;
+  const btm = b.y + b.h;
+  return [
+    ["nw", { x: b.x, y: b.y }],
+    ["ne", { x: r, y: b.y }],
+    ["se", { x: r, y: btm }],
+    ["sw", { x: b.x, y: btm }],
+    ["n", { x: cx, y: b.y }],
+    ["s", { x: cx, y: btm }],
+    ["e", { x: r, y: cy }],
+    ["w", { x: b.x, y: cy }],
+  ];
+}
+
+/** Handle positions in image px: quad or polygon corners, else 8 edge/corner grips. */
+export function boxHandles(b: Box): [Handle, Point][] {
+  if (b.quad) return b.quad.map((p, i) => [i, p] as [Handle, Point]);
+  if (b.points) return b.points.map((p, i) => [i, p] as [Handle, Point]);
+  return rectHandles(b);
+}
+
+/** Nearest handle of `b` within `radius` (image px) of `pt`. */
+export function hitHandle(b: Box, pt: Point, radius: number): Handle | null {
+  let best: { handle: Handle; d: number } | null = null;
+  for (const [handle, p] of boxHandles(b)) {
+    const d = distance(p, pt);
+    if (d <= radius && (!best || d < best.d)) best = { handle, d };
+  }
+  return best ? best.handle : null;
+}
+
+export function containsPoint(b: Box, pt: Point) {
+  return pt.x >= b.x && pt.x <= b.x + b.w && pt.y >= b.y && pt.y <= b.y + b.h;
+}
+
+/** Translate a box by (dx, dy), keeping it inside the image. */
+export function moveBox(b: Box, dx: number, dy: number, bounds: { w: number; h: number }): Box {
+  const cdx = Math.max(-b.x, Math.min(bounds.w - (b.x + b.w), dx));
+  const cdy = Math.max(-b.y, Math.min(bounds.h - (b.y + b.h), dy));
+  const quad = b.quad?.map((p) => ({ x: p.x + cdx, y: p.y + cdy })) as Quad | undefined;
+  const points = b.points?.map((p) => ({ x: p.x + cdx, y: p.y + cdy }));
+  return { ...b, x: b.x + cdx, y: b.y + cdy, quad, points };
+}
+
+/**
+ * Drag `handle` of the original box to `pt`. Rect edges follow the pointer on
+ * their axis and flip cleanly when dragged past the opposite edge.
+ */
+export function resizeBox(b: Box, handle: Handle, pt: Point): Box {
+  if (typeof handle === "number") {
+    if (b.points) {
+      const points = b.points.map((c, i) => (i === handle ? pt : c));
+      return { ...b, ...pointBounds(points), points };
+    }
+    if (!b.quad) return b;
+    const quad = b.quad.map((c, i) => (i === handle ? pt : c)) as Quad;
+    return { ...b, ...quadBounds(quad), quad };
+  }
+
+  let x1 = b.x;
+  let y1 = b.y;
+  let x2 = b.x + b.w;
+  let y2 = b.y + b.h;
+  if (handle.includes("w")) x1 = pt.x;
+  if (handle.includes("e")) x2 = pt.x;
+  if (handle.includes("n")) y1 = pt.y;
+  if (handle.includes("s")) y2 = pt.y;
+
+  const x = Math.min(x1, x2);
+  const y = Math.min(y1, y2);
+  const w = Math.max(MIN_BOX_PX, Math.abs(x2 - x1));
+  const h = Math.max(MIN_BOX_PX, Math.abs(y2 - y1));
+  return { ...b, x, y, w, h };
+}
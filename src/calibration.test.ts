@@ -0,0 +1,76 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { aspectMismatch, computeScale, fitScale } from "./calibration";
+
+describe("computeScale", () => {
+  it("gives pixels per inch on each axis", () => {
+    expect(computeScale(85, 110, { w: 8.5, h: 11 })).toEqual({ x: 10, y: 10 });
+    expect(computeScale(360, 400, { w: 36, h: 80 })).toEqual({ x: 10, y: 5 });
+  });
+
+  it("refuses empty boxes and sizes", () => {
+    expect(computeScale(0, 110, { w: 8.5, h: 11 })).toBeNull();
+    expect(computeScale(85, 110, { w: 0, h: 11 })).toBeNull();
+    expect(computeScale(85, 110, { w: NaN, h: 11 })).toBeNull();
+  });
+
+  it("measures the reference back at its real size", () => {
+    const positive = fc.double({ min: 0.5, max: 5000, noNaN: true });
+    fc.assert(
+      fc.property(positive, positive, positive, positive, (pxW, pxH, w, h) => {
+        const s = computeScale(pxW, pxH, { w, h })!;
+        expect(pxW / s.x).toBeCloseTo(w, 6);
+        expect(pxH / s.y).toBeCloseTo(h, 6);
+      })
+    );
+  });
+});
+
+describe("fitScale", () => {
+  it("weights samples by how precise they are", () => {
+    const fit = fitScale([
+      { axis: "x", ppi: 10, error: 0.01 },
+      { axis: "x", ppi: 20, error: 0.1 },
+    ])!;
+    // weights 10000 and 100
+    expect(fit.scale.x).toBeCloseTo((10 * 10000 + 20 * 100) / 10100);
+    expect(fit.error.x).toBeCloseTo(1 / Math.sqrt(10100));
+  });
+
+  it("lets an unmeasured axis borrow the other", () => {
+    const fit = fitScale([{ axis: "y", ppi: 12, error: 0.02 }])!;
+    expect(fit.scale).toEqual({ x: 12, y: 12 });
+    expect(fit.error).toEqual({ x: 0.02, y: 0.02 });
+  });
+
+  it("is null without usable samples", () => {
+    expect(fitScale([])).toBeNull();
+    expect(fitScale([{ axis: "x", ppi: 0, error: 0.01 }])).toBeNull();
+  });
+
+  it("never lands outside the samples it was given", () => {
+    const sample = fc.record({
+      axis: fc.constant("x" as const),
+      ppi: fc.double({ min: 1, max: 100, noNaN: true }),
+      error: fc.double({ min: 0.001, max: 0.5, noNaN: true }),
+    });
+    fc.assert(
+      fc.property(fc.array(sample, { minLength: 1, maxLength: 8 }), (samples) => {
+        const { scale } = fitScale(samples)!;
+        const ppis = samples.map((s) => s.ppi);
+        expect(scale.x).toBeGreaterThanOrEqual(Math.min(...ppis) - 1e-9);
+        expect(scale.x).toBeLessThanOrEqual(Math.max(...ppis) + 1e-9);
+      })
+    );
+  });
+});
+
+describe("aspectMismatch", () => {
+  it("is zero for a box with the reference's proportions", () => {
+    expect(aspectMismatch(170, 220, { w: 8.5, h: 11 })).toBeCloseTo(0);
+  });
+
+  it("grows as the box is drawn out of shape", () => {
+    expect(aspectMismatch(110, 110, { w: 8.5, h: 11 })).toBeCloseTo(11 / 8.5 - 1);
+  });
+});
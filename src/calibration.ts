@@ -0,0 +1,56 @@
+export type RefPreset = "paper" | "door" | "custom";
+
+export type RefSize = { w: number; h: number }; // real inches
+
+export const REFERENCE_PRESETS: Record<Exclude<RefPreset, "custom">, RefSize & { label: string }> = {
+  paper: { label: "Letter paper", w: 8.5, h: 11 },
+  door: { label: "Standard door", w: 36, h: 80 },
+};
+
+// relative disagreement between pixel and real aspect ratio before we warn
+export const ASPECT_TOLERANCE = 0.1;
+
+export type Scale = { x: number; y: number }; // pixels per inch on each axis
+
+/** Separate horizontal/vertical pixels-per-inch from a reference box. */
+export function computeScale(pxW: number, pxH: number, real: RefSize): Scale | null {
+  if (!(real.w > 0) || !(real.h > 0) || !(pxW > 0) || !(pxH > 0)) return null;
+  return { x: pxW / real.w, y: pxH / real.h };
+}
+
+// one pixels-per-inch estimate for an axis, from the reference or a tape-measured window
+export type ScaleSample = { axis: "x" | "y"; ppi: number; error: number }; // error is relative
+
+/**
+ * Inverse-variance mean of the samples on each axis, with the relative error
+ * of that mean. An axis nobody measured borrows the other (pixels are square).
+ */
+export function fitScale(samples: ScaleSample[]): { scale: Scale; error: Scale } | null {
+  const fit = (axis: "x" | "y") => {
+    let weight = 0;
+    let sum = 0;
+    for (const s of samples) {
+      if (s.axis !== axis || !(s.ppi > 0) || !(s.error > 0)) continue;
+      weight += 1 / s.error ** 2;
+      sum += s.ppi / s.error ** 2;
+    }
+    return weight > 0 ? { ppi: sum / weight, error: 1 / Math.sqrt(weight) } : null;
+  };
+  const x = fit("x");
+  const y = fit("y");
+  if (!x && !y) return null;
+  const fx = x ?? y!;
+  const fy = y ?? x!;
+  return { scale: { x: fx.ppi, y: fy.ppi }, error: { x: fx.error, y: fy.error } };
+}
+
+/**
+ * Relative mismatch between the reference box's pixel aspect ratio and the
+ * preset's real aspect ratio (0 = identical). Large values usually mean the
+ * box was drawn loosely, the photo is tilted, or the wrong preset is picked.
+ */
+export function aspectMismatch(pxW: number, pxH: number, real: RefSize) {
+  const pxAspect = pxW / pxH;
+  const realAspect = real.w / real.h;
+  return Math.abs(pxAspect - realAspect) / realAspect;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { computeCommission, createDeal } from "./commission";
+import type { Deal } from "./commission";
+import { DEFAULT_PRICE_BOOK, priceJob } from "./pricing";
+
+// 100 sq ft of solar film: $1,400–$1,500 retail, $1,200 cost
+const quote = priceJob(DEFAULT_PRICE_BOOK, [{ productId: "solar", sqft: 100, windows: 4 }]);
+
+const deal = (patch: Partial<Deal>): Deal => ({ ...createDeal(), ...patch });
+
+describe("computeCommission", () => {
+  it("matches the quote's commission when sold at high retail for cash", () => {
+    const c = computeCommission(deal({ salePrice: 1500 }), quote, 0);
+    expect(c.pool).toBe(quote.commissionHigh);
+    expect(c.payouts.map((p) => p.amount)).toEqual([300]);
+    expect(c.belowFloor).toBe(false);
+  });
+
+  it("splits the pool by percentage and reports what's unassigned", () => {
+    const d = deal({
+      salePrice: 1600,
+      splits: [
+        { id: "rep", name: "Rep", pct: 60 },
+        { id: "setter", name: "Setter", pct: 30 },
+      ],
+    });
+    const c = computeCommission(d, quote, 0);
+    expect(c.payouts.map((p) => p.amount)).toEqual([240, 120]);
+    expect(c.splitPct).toBe(90);
+    expect(c.unassigned).toBeCloseTo(40);
+  });
+
+  it("takes the financing fee on the financed total, tax included, but never pays commission on tax", () => {
+    const c = computeCommission(deal({ salePrice: 1500, financingPct: 10 }), quote, 8);
+    expect(c.financingFee).toBeCloseTo(162);
+    expect(c.pool).toBeCloseTo(1500 - 1200 - 162);
+  });
+
+  it("flags a price under the retail floor", () => {
+    const c = computeCommission(deal({ salePrice: 1300 }), quote, 0);
+    expect(c.floor).toBe(1400);
+    expect(c.belowFloor).toBe(true);
+    expect(c.pool).toBe(100);
+  });
+});
@@ -0,0 +1,47 @@
+import { uid } from "./boxes";
+import type { Quote } from "./pricing";
+
+export type Split = { id: string; name: string; pct: number }; // share of the commission, 0–100
+
+// what was actually sold; internal only, never on the customer's quote
+export type Deal = {
+  salePrice: number; // agreed pre-tax price; 0 = not agreed yet
+  financingPct: number; // lender's fee, % of what the customer finances (sale price + tax)
+  splits: Split[];
+};
+
+export function createDeal(): Deal {
+  return { salePrice: 0, financingPct: 0, splits: [{ id: uid(), name: "Rep", pct: 100 }] };
+}
+
+export type Commission = {
+  floor: number; // lowest suggested pre-tax retail
+  belowFloor: boolean;
+  financingFee: number;
+  pool: number; // sale price − film cost − install/lift/pane fees − financing fee
+  payouts: { split: Split; amount: number }[];
+  splitPct: number; // total of the splits; anything short of 100 stays unassigned
+  unassigned: number;
+};
+
+/**
+ * Commission on an agreed price. Tax is passed through to the state and never
+ * counts toward commission, but the lender's fee is charged on it too.
+ */
+export function computeCommission(deal: Deal, quote: Quote, taxRate: number): Commission {
+  const floor = quote.subtotalLow;
+  const financed = deal.salePrice * (1 + taxRate / 100);
+  const financingFee = (financed * Math.max(0, deal.financingPct)) / 100;
+  const fees = quote.installFees + quote.liftFees + quote.paneFees;
+  const pool = deal.salePrice - quote.cost - fees - financingFee;
+  const splitPct = deal.splits.reduce((n, s) => n + Math.max(0, s.pct), 0);
+  return {
+    floor,
+    belowFloor: deal.salePrice < floor,
+    financingFee,
+    pool,
+    payouts: deal.splits.map((split) => ({ split, amount: (pool * Math.max(0, split.pct)) / 100 })),
+    splitPct,
+    unassigned: (pool * (100 - splitPct)) / 100,
+  };
+}
@@ -0,0 +1,84 @@
+import { normalizeJob } from "./jobs";
+import type { Job } from "./jobs";
+import { normalizePriceBook } from "./pricing";
+import type { PriceBook } from "./pricing";
+
+const DB_NAME = "window-sqft-estimator";
+const DB_VERSION = 2;
+const JOBS = "jobs";
+const PRICE_BOOKS = "priceBooks";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(JOBS)) {
+          db.createObjectStore(JOBS, { keyPath: "id" }).createIndex("updatedAt", "updatedAt");
+        }
+        if (!db.objectStoreNames.contains(PRICE_BOOKS)) {
+          db.createObjectStore(PRICE_BOOKS, { keyPath: "id" });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // let a later call retry (e.g. after the user leaves private browsing)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDb().then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const tx = db.transaction(storeName, mode);
+        const req = fn(tx.objectStore(storeName));
+        tx.oncomplete = () => resolve(req.result);
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+      })
+  );
+}
+
+/** All saved jobs, most recently edited first. */
+export async function listJobs(): Promise<Job[]> {
+  const jobs = await run(JOBS, "readonly", (s) => s.getAll() as IDBRequest<Job[]>);
+  return jobs.map(normalizeJob).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getJob(id: string): Promise<Job | null> {
+  const job = await run(JOBS, "readonly", (s) => s.get(id) as IDBRequest<Job | undefined>);
+  return job ? normalizeJob(job) : null;
+}
+
+export async function saveJob(job: Job): Promise<void> {
+  await run(JOBS, "readwrite", (s) => s.put(job));
+}
+
+export async function deleteJob(id: string): Promise<void> {
+  await run(JOBS, "readwrite", (s) => s.delete(id));
+}
+
+export async function listPriceBooks(): Promise<PriceBook[]> {
+  const books = await run(PRICE_BOOKS, "readonly", (s) => s.getAll() as IDBRequest<PriceBook[]>);
+  return books.map(normalizePriceBook).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function savePriceBook(book: PriceBook): Promise<void> {
+  await run(PRICE_BOOKS, "readwrite", (s) => s.put(book));
+}
+
+export async function deletePriceBook(id: string): Promise<void> {
+  await run(PRICE_BOOKS, "readwrite", (s) => s.delete(id));
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { detectDoor, detectPaper, detectRectangles } from "./detect";
+import type { Pixels } from "./detect";
+
+function blank(width: number, height: number, shade = 230): Pixels {
+  const data = new Uint8ClampedArray(width * height * 4).fill(shade);
+  return { width, height, data };
+}
+
+// even-odd fill of an arbitrary quad, for tilted paper
+function fillQuad(img: Pixels, pts: [number, number][], shade: number) {
+  for (let y = 0; y < img.height; y++) {
+    for (let x = 0; x < img.width; x++) {
+      let inside = false;
+      for (let i = 0, j = pts.length - 1; i < pts.length; j = i++) {
+        const [xi, yi] = pts[i];
+        const [xj, yj] = pts[j];
+        if (yi > y + 0.5 !== yj > y + 0.5 && x + 0.5 < ((xj - xi) * (y + 0.5 - yi)) / (yj - yi) + xi) inside = !inside;
+      }
+      if (inside) fillRect(img, x, y, 1, 1, shade);
+    }
+  }
+}
+
+function fillRect(img: Pixels, x: number, y: number, w: number, h: number, shade: number) {
+  for (let j = y; j < y + h; j++) {
+    for (let i = x; i < x + w; i++) {
+      const k = (j * img.width + i) * 4;
+      img.data[k] = img.data[k + 1] = img.data[k + 2] = shade;
+    }
+  }
+}
+
+describe("detectRectangles", () => {
+  it("finds dark panes on a light wall", () => {
+    const img = blank(320, 240);
+    fillRect(img, 40, 50, 60, 80, 60);
+    fillRect(img, 200, 100, 80, 60, 60);
+
+    const found = detectRectangles(img).sort((a, b) => a.x - b.x);
+    expect(found).toHaveLength(2);
+    const expected = [
+      { x: 40, y: 50, w: 60, h: 80 },
+      { x: 200, y: 100, w: 80, h: 60 },
+    ];
+    found.forEach((r, i) => {
+      expect(Math.abs(r.x - expected[i].x)).toBeLessThanOrEqual(2);
+      expect(Math.abs(r.y - expected[i].y)).toBeLessThanOrEqual(2);
+      expect(Math.abs(r.w - expected[i].w)).toBeLessThanOrEqual(3);
+      expect(Math.abs(r.h - expected[i].h)).toBeLessThanOrEqual(3);
+    });
+  });
+
+  it("keeps one outline for a framed window", () => {
+    const img = blank(320, 240);
+    fillRect(img, 100, 60, 100, 120, 120); // frame
+    fillRect(img, 108, 68, 84, 104, 40); // glass
+
+    expect(detectRectangles(img)).toHaveLength(1);
+  });
+
+  it("ignores blank images and thin lines", () => {
+    expect(detectRectangles(blank(200, 150))).toEqual([]);
+
+    const img = blank(200, 150);
+    fillRect(img, 20, 70, 160, 3, 40);
+    expect(detectRectangles(img)).toEqual([]);
+  });
+});
+
+const PAPER = { w: 8.5, h: 11 };
+const DOOR = { w: 36, h: 80 };
+
+describe("detectPaper", () => {
+  it("snaps to a sheet taped to a darker wall", () => {
+    const img = blank(320, 240, 110);
+    fillRect(img, 150, 60, 68, 88, 245);
+
+    const found = detectPaper(img, PAPER);
+    expect(found?.confidence).toBeGreaterThan(0.7);
+    const expected = [
+      [150, 60],
+      [218, 60],
+      [218, 148],
+      [150, 148],
+    ];
+    found!.quad.forEach((p, i) => {
+      expect(Math.abs(p.x - expected[i][0])).toBeLessThanOrEqual(1);
+      expect(Math.abs(p.y - expected[i][1])).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it("follows the corners of a sheet shot at an angle", () => {
+    const img = blank(320, 240, 100);
+    const corners: [number, number][] = [
+      [100, 50],
+      [172, 60],
+      [168, 150],
+      [96, 146],
+    ];
+    fillQuad(img, corners, 240);
+
+    const found = detectPaper(img, PAPER);
+    expect(found?.confidence).toBeGreaterThan(0.5);
+    found!.quad.forEach((p, i) => {
+      expect(Math.abs(p.x - corners[i][0])).toBeLessThanOrEqual(2);
+      expect(Math.abs(p.y - corners[i][1])).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it("has low confidence for bright shapes that aren't paper-shaped", () => {
+    const img = blank(320, 240, 110);
+    fillRect(img, 40, 40, 200, 30, 245);
+    expect(detectPaper(img, PAPER)?.confidence ?? 0).toBeLessThan(0.5);
+  });
+});
+
+describe("detectDoor", () => {
+  it("prefers the door-shaped rectangle over a window", () => {
+    const img = blank(320, 240);
+    fillRect(img, 40, 60, 80, 60, 60); // window
+    fillRect(img, 200, 40, 72, 160, 90); // door
+
+    const found = detectDoor(img, DOOR);
+    expect(found?.confidence).toBeGreaterThan(0.5);
+    expect(Math.abs(found!.quad[0].x - 200)).toBeLessThanOrEqual(2);
+    expect(Math.abs(found!.quad[2].y - 200)).toBeLessThanOrEqual(3);
+  });
+});
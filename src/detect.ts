@@ -0,0 +1,354 @@
+/**
+ * Window and reference detection on raw RGBA pixels. Windows: Sobel edges,
+ * long horizontal and vertical edge segments, then rectangles whose four
+ * sides are mostly edge. Paper: the bright blob that best fills a
+ * quadrilateral of the right aspect. Doors: window-style rectangles with a
+ * door's aspect. Pure so it runs the same in the worker and in tests.
+ */
+import { distance, polygonArea } from "./geometry";
+import type { Quad } from "./geometry";
+import type { RefSize } from "./calibration";
+
+export type Pixels = { width: number; height: number; data: Uint8ClampedArray };
+
+export type DetectedRect = { x: number; y: number; w: number; h: number; score: number };
+
+/** Message to the detection worker; it replies with DetectedRect[] or DetectedReference | null. */
+export type DetectRequest = { pixels: Pixels } & ({ find: "windows" } | { find: "paper" | "door"; size: RefSize });
+
+type Segment = { pos: number; start: number; end: number };
+
+const MIN_EDGE = 30; // gradient floor so flat photos don't turn noise into edges
+const SIDE_COVERAGE = 0.6; // every side must be at least this much edge
+const MAX_RESULTS = 40;
+const MAX_LINES = 60;
+
+export function grayscale({ width, height, data }: Pixels) {
+  const g = new Float32Array(width * height);
+  for (let i = 0; i < g.length; i++) {
+    g[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return g;
+}
+
+/** Sobel gradients; the one-pixel border is left at 0. */
+export function sobel(gray: Float32Array, w: number, h: number) {
+  const gx = new Float32Array(w * h);
+  const gy = new Float32Array(w * h);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const tl = gray[i - w - 1], t = gray[i - w], tr = gray[i - w + 1];
+      const l = gray[i - 1], r = gray[i + 1];
+      const bl = gray[i + w - 1], b = gray[i + w], br = gray[i + w + 1];
+      gx[i] = tr + 2 * r + br - tl - 2 * l - bl;
+      gy[i] = bl + 2 * b + br - tl - 2 * t - tr;
+    }
+  }
+  return { gx, gy };
+}
+
+/** Horizontal- and vertical-edge masks from Sobel gradients. */
+function edgeMasks(gray: Float32Array, w: number, h: number) {
+  const { gx, gy } = sobel(gray, w, h);
+  const hist = new Uint32Array(2048);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      hist[Math.min(2047, Math.round(Math.hypot(gx[i], gy[i])))]++;
+    }
+  }
+
+  // keep roughly the strongest 10% of gradients
+  let threshold = 2047;
+  for (let seen = 0, n = (w - 2) * (h - 2) * 0.1; threshold > 0 && seen + hist[threshold] < n; threshold--) {
+    seen += hist[threshold];
+  }
+  threshold = Math.max(MIN_EDGE, threshold);
+
+  const horiz = new Uint8Array(w * h);
+  const vert = new Uint8Array(w * h);
+  for (let i = 0; i < w * h; i++) {
+    const ax = Math.abs(gx[i]);
+    const ay = Math.abs(gy[i]);
+    if (Math.hypot(ax, ay) < threshold) continue;
+    if (ay >= ax) horiz[i] = 1;
+    else vert[i] = 1;
+  }
+  return { horiz, vert };
+}
+
+/** Runs of edge pixels along rows (or columns), bridging small gaps. */
+function findSegments(mask: Uint8Array, w: number, h: number, horizontal: boolean, minLen: number, gap: number) {
+  const along = horizontal ? w : h;
+  const across = horizontal ? h : w;
+  const runs: Segment[] = [];
+  for (let b = 0; b < across; b++) {
+    let start = -1;
+    let last = -1;
+    for (let a = 0; a <= along; a++) {
+      const on = a < along && mask[horizontal ? b * w + a : a * w + b] === 1;
+      if (on) {
+        if (start < 0) start = a;
+        last = a;
+      } else if (start >= 0 && (a === along || a - last > gap)) {
+        if (last - start + 1 >= minLen) runs.push({ pos: b, start, end: last });
+        start = -1;
+      }
+    }
+  }
+  return mergeSegments(runs);
+}
+
+// an edge is 2–3 px thick, so neighbouring runs describe the same line
+function mergeSegments(runs: Segment[]) {
+  const out: (Segment & { sum: number; count: number })[] = [];
+  for (const s of runs) {
+    let merged = false;
+    for (let i = out.length - 1; i >= 0 && s.pos - out[i].pos <= 4; i--) {
+      const o = out[i];
+      const overlap = Math.min(o.end, s.end) - Math.max(o.start, s.start);
+      if (s.pos - o.pos > 2 || overlap < 0.5 * Math.min(o.end - o.start, s.end - s.start)) continue;
+      o.start = Math.min(o.start, s.start);
+      o.end = Math.max(o.end, s.end);
+      o.sum += s.pos;
+      o.count++;
+      o.pos = Math.round(o.sum / o.count);
+      merged = true;
+      break;
+    }
+    if (!merged) out.push({ ...s, sum: s.pos, count: 1 });
+  }
+  return out
+    .sort((a, b) => b.end - b.start - (a.end - a.start))
+    .slice(0, MAX_LINES)
+    .map(({ pos, start, end }) => ({ pos, start, end }));
+}
+
+/** Per-row (or per-column) prefix sums so side coverage is O(1). */
+function prefixSums(mask: Uint8Array, w: number, h: number, horizontal: boolean) {
+  const along = horizontal ? w : h;
+  const across = horizontal ? h : w;
+  const pre = new Uint32Array(across * (along + 1));
+  for (let b = 0; b < across; b++) {
+    for (let a = 0; a < along; a++) {
+      pre[b * (along + 1) + a + 1] = pre[b * (along + 1) + a] + mask[horizontal ? b * w + a : a * w + b];
+    }
+  }
+  return (pos: number, from: number, to: number) => {
+    // best of the lines within ±2 px, for slightly tilted or offset edges
+    let best = 0;
+    for (let b = Math.max(0, pos - 2); b <= Math.min(across - 1, pos + 2); b++) {
+      const row = b * (along + 1);
+      best = Math.max(best, pre[row + to + 1] - pre[row + from]);
+    }
+    return best / (to - from + 1);
+  };
+}
+
+function overlapRatio(a: DetectedRect, b: DetectedRect) {
+  const ix = Math.min(a.x + a.w, b.x + b.w) - Math.max(a.x, b.x);
+  const iy = Math.min(a.y + a.h, b.y + b.h) - Math.max(a.y, b.y);
+  if (ix <= 0 || iy <= 0) return 0;
+  return (ix * iy) / Math.min(a.w * a.h, b.w * b.h);
+}
+
+/** Window-like rectangles in the image, best first, in the image's pixel coordinates. */
+export function detectRectangles(pixels: Pixels): DetectedRect[] {
+  const { width: w, height: h } = pixels;
+  if (w < 8 || h < 8) return [];
+  const minSize = Math.max(12, Math.round(0.04 * Math.max(w, h)));
+  const gap = Math.max(2, Math.round(Math.max(w, h) / 200));
+
+  const { horiz, vert } = edgeMasks(grayscale(pixels), w, h);
+  const hLines = findSegments(horiz, w, h, true, minSize, gap).sort((a, b) => a.pos - b.pos);
+  const vLines = findSegments(vert, w, h, false, minSize, gap).sort((a, b) => a.pos - b.pos);
+  const coverH = prefixSums(horiz, w, h, true);
+  const coverV = prefixSums(vert, w, h, false);
+
+  const candidates: DetectedRect[] = [];
+  for (let i = 0; i < hLines.length; i++) {
+    for (let j = i + 1; j < hLines.length; j++) {
+      const top = hLines[i];
+      const bottom = hLines[j];
+      const rh = bottom.pos - top.pos;
+      if (rh < minSize) continue;
+      const x0 = Math.max(top.start, bottom.start) - gap;
+      const x1 = Math.min(top.end, bottom.end) + gap;
+      if (x1 - x0 < minSize) continue;
+
+      // sides: vertical lines inside the shared span that run most of the height
+      const sides = vLines.filter(
+        (v) =>
+          v.pos >= x0 &&
+          v.pos <= x1 &&
+          Math.min(v.end, bottom.pos) - Math.max(v.start, top.pos) >= 0.5 * rh
+      );
+      for (let a = 0; a < sides.length; a++) {
+        for (let b = a + 1; b < sides.length; b++) {
+          const left = sides[a].pos;
+          const right = sides[b].pos;
+          const rw = right - left;
+          if (rw < minSize || rw > 6 * rh || rh > 6 * rw) continue;
+          if (rw * rh > 0.6 * w * h) continue; // whole walls and photo borders aren't windows
+
+          const cover = [
+            coverH(top.pos, left, right),
+            coverH(bottom.pos, left, right),
+            coverV(left, top.pos, bottom.pos),
+            coverV(right, top.pos, bottom.pos),
+          ];
+          if (Math.min(...cover) < SIDE_COVERAGE) continue;
+          candidates.push({ x: left, y: top.pos, w: rw, h: rh, score: cover.reduce((s, c) => s + c, 0) / 4 });
+        }
+      }
+    }
+  }
+
+  // best score first, bigger outline on ties; drop anything mostly inside a kept one
+  candidates.sort((a, b) => b.score - a.score || b.w * b.h - a.w * a.h);
+  const kept: DetectedRect[] = [];
+  for (const c of candidates) {
+    if (kept.some((k) => overlapRatio(k, c) > 0.5)) continue;
+    kept.push(c);
+    if (kept.length === MAX_RESULTS) break;
+  }
+  return kept;
+}
+
+// --- reference ------------------------------------------------------------
+
+export type DetectedReference = { quad: Quad; confidence: number }; // confidence 0..1
+
+/** Below this the app leaves the reference for the rep to draw by hand. */
+export const MIN_REFERENCE_CONFIDENCE = 0.5;
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+// 1 at the target short/long ratio, 0 once perspective has skewed it by 35%
+function aspectScore(a: number, b: number, target: RefSize) {
+  const ratio = Math.min(a, b) / Math.max(a, b);
+  const want = Math.min(target.w, target.h) / Math.max(target.w, target.h);
+  return clamp01(1 - Math.abs(ratio - want) / (0.35 * want));
+}
+
+/**
+ * Letter paper: threshold the brightest pixels, flood-fill blobs, take each
+ * blob's extreme corners as a quad and score how well it fills that quad,
+ * matches the sheet's aspect and stands out from its surroundings.
+ */
+export function detectPaper(pixels: Pixels, size: RefSize): DetectedReference | null {
+  const { width: w, height: h } = pixels;
+  const gray = grayscale(pixels);
+
+  const hist = new Uint32Array(256);
+  for (const v of gray) hist[Math.min(255, Math.round(v))]++;
+  let threshold = 255;
+  for (let seen = 0; threshold > 0 && seen + hist[threshold] < gray.length * 0.1; threshold--) seen += hist[threshold];
+  threshold = Math.max(160, threshold);
+
+  const labels = new Int32Array(w * h); // 0 = unvisited, -1 = dark, n = blob n
+  const stack = new Int32Array(w * h);
+  const minArea = Math.max(100, 0.001 * w * h);
+  let best: DetectedReference | null = null;
+  let next = 1;
+
+  for (let seed = 0; seed < w * h; seed++) {
+    if (labels[seed] !== 0) continue;
+    if (gray[seed] < threshold) {
+      labels[seed] = -1;
+      continue;
+    }
+
+    // flood fill one bright blob, tracking its extreme diagonal points
+    const id = next++;
+    let top = 0;
+    let count = 0;
+    let sum = 0;
+    let minX = w, maxX = 0, minY = h, maxY = 0;
+    const tl = { x: 0, y: 0, v: Infinity };
+    const br = { x: 0, y: 0, v: -Infinity };
+    const tr = { x: 0, y: 0, v: -Infinity };
+    const bl = { x: 0, y: 0, v: Infinity };
+    labels[seed] = id;
+    stack[top++] = seed;
+    while (top > 0) {
+      const i = stack[--top];
+      const x = i % w;
+      const y = (i - x) / w;
+      count++;
+      sum += gray[i];
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+      if (x + y < tl.v) Object.assign(tl, { x, y, v: x + y });
+      if (x + y > br.v) Object.assign(br, { x, y, v: x + y });
+      if (x - y > tr.v) Object.assign(tr, { x, y, v: x - y });
+      if (x - y < bl.v) Object.assign(bl, { x, y, v: x - y });
+      for (const n of [x > 0 ? i - 1 : -1, x < w - 1 ? i + 1 : -1, y > 0 ? i - w : -1, y < h - 1 ? i + w : -1]) {
+        if (n < 0 || labels[n] !== 0) continue;
+        if (gray[n] < threshold) {
+          labels[n] = -1;
+          continue;
+        }
+        labels[n] = id;
+        stack[top++] = n;
+      }
+    }
+    if (count < minArea || count > 0.5 * w * h) continue;
+
+    // pixel centres -> outer corners of the blob
+    const quad: Quad = [
+      { x: tl.x, y: tl.y },
+      { x: tr.x + 1, y: tr.y },
+      { x: br.x + 1, y: br.y + 1 },
+      { x: bl.x, y: bl.y + 1 },
+    ];
+    const area = polygonArea(quad);
+    if (area <= 0) continue;
+    const fill = clamp01((count / area - 0.7) / 0.25);
+
+    const sideA = (distance(quad[0], quad[1]) + distance(quad[3], quad[2])) / 2;
+    const sideB = (distance(quad[0], quad[3]) + distance(quad[1], quad[2])) / 2;
+    const aspect = aspectScore(sideA, sideB, size);
+
+    // surroundings: a margin around the blob's bounds, minus the blob itself
+    const pad = Math.round(0.15 * Math.max(maxX - minX, maxY - minY));
+    let ringSum = 0;
+    let ringCount = 0;
+    for (let y = Math.max(0, minY - pad); y <= Math.min(h - 1, maxY + pad); y++) {
+      for (let x = Math.max(0, minX - pad); x <= Math.min(w - 1, maxX + pad); x++) {
+        if (labels[y * w + x] === id) continue;
+        ringSum += gray[y * w + x];
+        ringCount++;
+      }
+    }
+    const contrast = ringCount > 0 ? clamp01((sum / count - ringSum / ringCount) / 80) : 0;
+
+    const confidence = fill * aspect * contrast;
+    if (!best || confidence > best.confidence) best = { quad, confidence };
+  }
+  return best;
+}
+
+/** Doors: the detected rectangle whose shape is closest to the door size. */
+export function detectDoor(pixels: Pixels, size: RefSize): DetectedReference | null {
+  let best: DetectedReference | null = null;
+  for (const r of detectRectangles(pixels)) {
+    if (r.w >= r.h) continue; // doors stand upright
+    const confidence = clamp01((r.score - SIDE_COVERAGE) / (1 - SIDE_COVERAGE)) * aspectScore(r.w, r.h, size);
+    if (!best || confidence > best.confidence) {
+      best = {
+        quad: [
+          { x: r.x, y: r.y },
+          { x: r.x + r.w, y: r.y },
+          { x: r.x + r.w, y: r.y + r.h },
+          { x: r.x, y: r.y + r.h },
+        ],
+        confidence,
+      };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,10 @@
+import { detectDoor, detectPaper, detectRectangles } from "./detect";
+import type { DetectRequest } from "./detect";
+
+// keeps the edge/blob passes off the main thread so the canvas stays responsive
+self.onmessage = (e: MessageEvent<DetectRequest>) => {
+  const req = e.data;
+  if (req.find === "windows") self.postMessage(detectRectangles(req.pixels));
+  else if (req.find === "paper") self.postMessage(detectPaper(req.pixels, req.size));
+  else self.postMessage(detectDoor(req.pixels, req.size));
+};
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { shareOrDownload } from "./download";
+
+const blob = new Blob(["jpeg"], { type: "image/jpeg" });
+let downloads: string[];
+
+// jsdom has neither the share sheet nor object URLs
+function shareRejects(name: string) {
+  Object.assign(navigator, {
+    canShare: () => true,
+    share: () => Promise.reject(new DOMException("share refused", name)),
+  });
+}
+
+beforeEach(() => {
+  downloads = [];
+  URL.createObjectURL = () => "blob:photo";
+  URL.revokeObjectURL = () => {};
+  vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(function (this: HTMLAnchorElement) {
+    downloads.push(this.download);
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  Reflect.deleteProperty(navigator, "canShare");
+  Reflect.deleteProperty(navigator, "share");
+});
+
+describe("shareOrDownload", () => {
+  it("downloads when the browser can't share files", async () => {
+    await shareOrDownload(blob, "front.jpg", "Front", true);
+    expect(downloads).toEqual(["front.jpg"]);
+  });
+
+  it("downloads instead when the share isn't allowed after the render", async () => {
+    shareRejects("NotAllowedError");
+    await shareOrDownload(blob, "front.jpg", "Front", true);
+    expect(downloads).toEqual(["front.jpg"]);
+  });
+
+  it("leaves a dismissed share sheet to the caller", async () => {
+    shareRejects("AbortError");
+    await expect(shareOrDownload(blob, "front.jpg", "Front", true)).rejects.toThrow("share refused");
+    expect(downloads).toEqual([]);
+  });
+});
@@ -0,0 +1,40 @@
+/** Save a blob through the browser's download prompt. */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Hand a blob to the system share sheet (e.g. to text a customer from the
+ * phone). Resolves false when the browser can't share files, so the caller
+ * can download instead; rejects with an AbortError if the sheet is dismissed.
+ */
+export async function shareBlob(blob: Blob, filename: string, title: string) {
+  const file = new File([blob], filename, { type: blob.type });
+  if (typeof navigator.canShare !== "function" || !navigator.canShare({ files: [file] })) return false;
+  await navigator.share({ files: [file], title });
+  return true;
+}
+
+/**
+ * Share when asked and the browser can, download otherwise. iOS refuses a share
+ * that isn't started straight from a tap (NotAllowedError), which is what a
+ * slow render before it looks like, so that falls back to the download too.
+ */
+export async function shareOrDownload(blob: Blob, filename: string, title: string, share: boolean) {
+  try {
+    if (share && (await shareBlob(blob, filename, title))) return;
+  } catch (err) {
+    if (!(err instanceof DOMException && err.name === "NotAllowedError")) throw err;
+  }
+  downloadBlob(blob, filename);
+}
+
+/** Safe filename part from free text, e.g. a customer name. */
+export function fileSlug(text: string, fallback: string) {
+  return (text || fallback).replace(/[^\w-]+/g, "-");
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { orientationTransform, readJpegOrientation } from "./exif";
+
+// SOI, an APP0 to skip, then APP1 with a one-entry IFD0 holding the orientation tag
+function jpeg(orientation: number, little: boolean) {
+  const u16 = (n: number) => (little ? [n & 0xff, n >> 8] : [n >> 8, n & 0xff]);
+  const u32 = (n: number) => (little ? [...u16(n & 0xffff), ...u16(n >>> 16)] : [...u16(n >>> 16), ...u16(n & 0xffff)]);
+  const tiff = [...(little ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42), ...u32(8), ...u16(1)];
+  const entry = [...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0];
+  const app1 = [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff, ...entry, ...u32(0)];
+  const app0 = [0x4a, 0x46, 0x49, 0x46, 0];
+  return new Uint8Array([
+    0xff, 0xd8,
+    0xff, 0xe0, 0, app0.length + 2, ...app0,
+    0xff, 0xe1, 0, app1.length + 2, ...app1,
+    0xff, 0xda, 0, 2,
+  ]).buffer;
+}
+
+describe("readJpegOrientation", () => {
+  it("reads the tag in either byte order", () => {
+    expect(readJpegOrientation(jpeg(6, false))).toBe(6);
+    expect(readJpegOrientation(jpeg(8, true))).toBe(8);
+  });
+
+  it("falls back to upright for non-JPEGs and truncated files", () => {
+    expect(readJpegOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBe(1);
+    expect(readJpegOrientation(jpeg(6, false).slice(0, 30))).toBe(1);
+  });
+});
+
+describe("orientationTransform", () => {
+  const apply = ([a, b, c, d, e, f]: number[], x: number, y: number) => [a * x + c * y + e, b * x + d * y + f];
+
+  it("swaps the canvas size for quarter turns", () => {
+    expect(orientationTransform(6, 400, 300)).toMatchObject({ width: 300, height: 400 });
+    expect(orientationTransform(3, 400, 300)).toMatchObject({ width: 400, height: 300 });
+  });
+
+  it("keeps every corner of the stored image on the canvas", () => {
+    for (let o = 1; o <= 8; o++) {
+      const { width, height, matrix } = orientationTransform(o, 400, 300);
+      const corners = [
+        [0, 0],
+        [400, 0],
+        [0, 300],
+        [400, 300],
+      ].map(([x, y]) => apply(matrix, x, y));
+      expect(new Set(corners.map(String))).toEqual(new Set([`0,0`, `${width},0`, `0,${height}`, `${width},${height}`]));
+    }
+  });
+
+  it("turns a portrait shot stored as landscape clockwise", () => {
+    // orientation 6: the stored top-left corner ends up top-right
+    expect(apply(orientationTransform(6, 400, 300).matrix, 0, 0)).toEqual([300, 0]);
+  });
+});
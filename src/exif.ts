@@ -0,0 +1,62 @@
+// EXIF orientation for camera JPEGs. Phones store portrait shots as landscape
+// pixels plus a rotate flag; browsers that ignore the flag load them sideways.
+
+type Matrix = [number, number, number, number, number, number];
+
+/** EXIF orientation (1–8) from the start of a JPEG; 1 when absent or unreadable. */
+export function readJpegOrientation(buffer: ArrayBuffer): number {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00 || marker === 0xffda) return 1; // not a marker, or image data began
+    const length = view.getUint16(offset + 2);
+    // APP1 "Exif\0\0", then a TIFF header
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      return tiffOrientation(view, offset + 10);
+    }
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+function tiffOrientation(view: DataView, tiff: number): number {
+  if (tiff + 8 > view.byteLength) return 1;
+  const little = view.getUint16(tiff) === 0x4949; // "II", else "MM"
+  const ifd = tiff + view.getUint32(tiff + 4, little);
+  if (ifd + 2 > view.byteLength) return 1;
+  const entries = view.getUint16(ifd, little);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) return 1;
+    if (view.getUint16(entry, little) === 0x0112) {
+      const value = view.getUint16(entry + 8, little);
+      return value >= 1 && value <= 8 ? value : 1;
+    }
+  }
+  return 1;
+}
+
+/**
+ * Canvas size and ctx.transform(a, b, c, d, e, f) that draw a w×h image
+ * stored with the given orientation upright.
+ */
+export function orientationTransform(orientation: number, w: number, h: number) {
+  const swap = orientation >= 5 && orientation <= 8;
+  const matrices: Record<number, Matrix> = {
+    2: [-1, 0, 0, 1, w, 0],
+    3: [-1, 0, 0, -1, w, h],
+    4: [1, 0, 0, -1, 0, h],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, h, 0],
+    7: [0, -1, -1, 0, h, w],
+    8: [0, -1, 1, 0, 0, w],
+  };
+  return {
+    width: swap ? h : w,
+    height: swap ? w : h,
+    matrix: matrices[orientation] ?? ([1, 0, 0, 1, 0, 0] as Matrix),
+  };
+}
@@ -0,0 +1,69 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { applyHomography, computeHomography, measureQuad, pointBounds, polygonArea, rectToQuad } from "./geometry";
+import type { Quad } from "./geometry";
+
+describe("polygonArea", () => {
+  it("is the area of a rectangle either way round", () => {
+    const q = rectToQuad(10, 20, 30, 40);
+    expect(polygonArea(q)).toBe(1200);
+    expect(polygonArea([...q].reverse())).toBe(1200);
+  });
+
+  it("handles an L-shaped polygon", () => {
+    const l = [
+      { x: 0, y: 0 },
+      { x: 20, y: 0 },
+      { x: 20, y: 10 },
+      { x: 10, y: 10 },
+      { x: 10, y: 30 },
+      { x: 0, y: 30 },
+    ];
+    expect(polygonArea(l)).toBe(20 * 10 + 10 * 20);
+    expect(pointBounds(l)).toEqual({ x: 0, y: 0, w: 20, h: 30 });
+  });
+});
+
+describe("homography", () => {
+  // a reference photographed at an angle: the far side is shorter
+  const skewed: Quad = [
+    { x: 100, y: 120 },
+    { x: 300, y: 100 },
+    { x: 310, y: 400 },
+    { x: 90, y: 360 },
+  ];
+  const real = rectToQuad(0, 0, 36, 80);
+
+  it("maps each reference corner onto its real corner", () => {
+    const H = computeHomography(skewed, real)!;
+    skewed.forEach((p, i) => {
+      const m = applyHomography(H, p)!;
+      expect(m.x).toBeCloseTo(real[i].x, 6);
+      expect(m.y).toBeCloseTo(real[i].y, 6);
+    });
+    expect(measureQuad(H, skewed)).toMatchObject({ width: expect.closeTo(36, 6), height: expect.closeTo(80, 6) });
+  });
+
+  it("is null for a degenerate reference", () => {
+    const line: Quad = [
+      { x: 0, y: 0 },
+      { x: 10, y: 0 },
+      { x: 20, y: 0 },
+      { x: 30, y: 0 },
+    ];
+    expect(computeHomography(line, real)).toBeNull();
+  });
+
+  it("round-trips points through a transform and its inverse", () => {
+    const H = computeHomography(skewed, real)!;
+    const back = computeHomography(real, skewed)!;
+    fc.assert(
+      fc.property(fc.double({ min: 0, max: 36, noNaN: true }), fc.double({ min: 0, max: 80, noNaN: true }), (x, y) => {
+        const p = applyHomography(back, { x, y })!;
+        const q = applyHomography(H, p)!;
+        expect(q.x).toBeCloseTo(x, 6);
+        expect(q.y).toBeCloseTo(y, 6);
+      })
+    );
+  });
+});
@@ -0,0 +1,121 @@
+export type Point = { x: number; y: number };
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+// 3x3 row-major matrix with h[8] normalized to 1
+export type Homography = number[];
+
+export function distance(a: Point, b: Point) {
+  const dx = a.x - b.x;
+  const dy = a.y - b.y;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+export function rectToQuad(x: number, y: number, w: number, h: number): Quad {
+  return [
+    { x, y },
+    { x: x + w, y },
+    { x: x + w, y: y + h },
+    { x, y: y + h },
+  ];
+}
+
+export function quadBounds(q: Quad) {
+  return pointBounds(q);
+}
+
+export function pointBounds(points: Point[]) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+/** Shoelace formula; returns the absolute area of a simple polygon. */
+export function polygonArea(points: Point[]) {
+  let sum = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    sum += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(sum) / 2;
+}
+
+/**
+ * Gaussian elimination with partial pivoting. Returns null when the system is
+ * singular (e.g. three reference corners on one line).
+ */
+function solveLinear(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = col + 1; r < n; r++) {
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+
+  const out = new Array<number>(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let s = m[r][n];
+    for (let c = r + 1; c < n; c++) s -= m[r][c] * out[c];
+    out[r] = s / m[r][r];
+  }
+  return out;
+}
+
+/** Projective transform mapping each src corner onto the matching dst corner. */
+export function computeHomography(src: Quad, dst: Quad): Homography | null {
+  const A: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = src[i];
+    const { x: u, y: v } = dst[i];
+    A.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    A.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  const h = solveLinear(A, b);
+  if (!h) return null;
+  return [...h, 1];
+}
+
+export function applyHomography(H: Homography, p: Point): Point | null {
+  const w = H[6] * p.x + H[7] * p.y + H[8];
+  if (Math.abs(w) < 1e-12) return null;
+  return {
+    x: (H[0] * p.x + H[1] * p.y + H[2]) / w,
+    y: (H[3] * p.x + H[4] * p.y + H[5]) / w,
+  };
+}
+
+/**
+ * Rectified size of a quad: width/height are the mean of opposite edges after
+ * mapping through H, area is the mapped polygon area (same units squared).
+ */
+export function measureQuad(H: Homography, q: Quad) {
+  const mapped: Point[] = [];
+  for (const p of q) {
+    const m = applyHomography(H, p);
+    if (!m) return null;
+    mapped.push(m);
+  }
+  const [tl, tr, br, bl] = mapped;
+  return {
+    width: (distance(tl, tr) + distance(bl, br)) / 2,
+    height: (distance(tl, bl) + distance(tr, br)) / 2,
+    area: polygonArea(mapped),
+  };
+}
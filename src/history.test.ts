@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { canRedo, canUndo, createHistory, pushHistory, redo, undo } from "./history";
+
+describe("history", () => {
+  it("starts with nothing to undo or redo", () => {
+    const h = createHistory(0);
+    expect(h.present.state).toBe(0);
+    expect(canUndo(h)).toBe(false);
+    expect(canRedo(h)).toBe(false);
+  });
+
+  it("undoes and redoes pushed states in order", () => {
+    let h = createHistory(0);
+    h = pushHistory(h, 1, "one");
+    h = pushHistory(h, 2, "two");
+
+    h = undo(h);
+    expect(h.present.state).toBe(1);
+    expect(h.future[0].label).toBe("two");
+
+    h = undo(h);
+    expect(h.present.state).toBe(0);
+    expect(canUndo(h)).toBe(false);
+
+    h = redo(redo(h));
+    expect(h.present.state).toBe(2);
+    expect(canRedo(h)).toBe(false);
+  });
+
+  it("drops the redo branch when a new state is pushed", () => {
+    let h = createHistory("a");
+    h = pushHistory(h, "b", "b");
+    h = undo(h);
+    h = pushHistory(h, "c", "c");
+    expect(canRedo(h)).toBe(false);
+    expect(undo(h).present.state).toBe("a");
+  });
+
+  it("collapses consecutive pushes that share a key", () => {
+    let h = createHistory("");
+    h = pushHistory(h, "K", "Rename", "rename:1");
+    h = pushHistory(h, "Ki", "Rename", "rename:1");
+    h = pushHistory(h, "Kit", "Rename", "rename:1");
+    expect(h.past).toHaveLength(1);
+    expect(undo(h).present.state).toBe("");
+  });
+
+  it("starts a fresh entry for the same key after an undo", () => {
+    let h = createHistory(0);
+    h = pushHistory(h, 1, "drag", "g");
+    h = pushHistory(h, 2, "drag", "g");
+    h = undo(h);
+    h = pushHistory(h, 5, "drag", "g");
+    h = pushHistory(h, 6, "drag", "g");
+    expect(h.past).toHaveLength(1);
+    expect(h.present.state).toBe(6);
+  });
+
+  it("ignores pushes of the identical state", () => {
+    const h = pushHistory(createHistory({ n: 1 }), { n: 2 }, "set");
+    expect(pushHistory(h, h.present.state, "noop")).toBe(h);
+  });
+
+  it("caps the number of undo steps", () => {
+    let h = createHistory(0);
+    for (let i = 1; i <= 10; i++) h = pushHistory(h, i, `step ${i}`, undefined, 3);
+    expect(h.past.map((e) => e.state)).toEqual([7, 8, 9]);
+  });
+
+  it("is a no-op to undo or redo at either end", () => {
+    const h = createHistory(0);
+    expect(undo(h)).toBe(h);
+    expect(redo(h)).toBe(h);
+  });
+});
@@ -0,0 +1,64 @@
+export type HistoryEntry<T> = {
+  state: T;
+  label: string; // shown as "Undo <label>"
+  key?: string; // consecutive pushes with the same key collapse into one entry
+};
+
+export type History<T> = {
+  past: HistoryEntry<T>[];
+  present: HistoryEntry<T>;
+  future: HistoryEntry<T>[];
+};
+
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(initial: T): History<T> {
+  return { past: [], present: { state: initial, label: "" }, future: [] };
+}
+
+/**
+ * Record a new state. Passing the same `key` as the current entry amends it in
+ * place, so a drag gesture or a burst of keystrokes is undone as one step.
+ */
+export function pushHistory<T>(
+  h: History<T>,
+  state: T,
+  label: string,
+  key?: string,
+  limit = HISTORY_LIMIT
+): History<T> {
+  if (state === h.present.state) return h;
+
+  if (key !== undefined && h.present.key === key && h.past.length > 0) {
+    return { past: h.past, present: { state, label, key }, future: [] };
+  }
+
+  const past = [...h.past, h.present];
+  if (past.length > limit) past.splice(0, past.length - limit);
+  return { past, present: { state, label, key }, future: [] };
+}
+
+export function canUndo<T>(h: History<T>) {
+  return h.past.length > 0;
+}
+
+export function canRedo<T>(h: History<T>) {
+  return h.future.length > 0;
+}
+
+export function undo<T>(h: History<T>): History<T> {
+  if (!canUndo(h)) return h;
+  const previous = h.past[h.past.length - 1];
+  return {
+    past: h.past.slice(0, -1),
+    // drop the key so an edit right after undo starts a fresh entry
+    present: { ...previous, key: undefined },
+    future: [h.present, ...h.future],
+  };
+}
+
+export function redo<T>(h: History<T>): History<T> {
+  if (!canRedo(h)) return h;
+  const [next, ...future] = h.future;
+  return { past: [...h.past, h.present], present: { ...next, key: undefined }, future };
+}
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import { JOB_FILE_FORMAT, JOB_FILE_VERSION, JobFileError, exportJob, parseJobFile } from "./jobFile";
+import { createJob } from "./jobs";
+import type { Job } from "./jobs";
+import { DEFAULT_PRICE_BOOK } from "./pricing";
+
+function sampleJob(): Job {
+  const job = createJob();
+  return {
+    ...job,
+    customerName: "Pat Lee",
+    photos: [
+      {
+        id: "p1",
+        name: "front.jpg",
+        blob: new Blob([new Uint8Array([0xff, 0xd8, 0x00, 0x7f, 0xff])], { type: "image/jpeg" }),
+        elevation: "front",
+        room: "",
+      },
+    ],
+    markup: {
+      byPhoto: {
+        p1: {
+          refPreset: "paper",
+          refSize: { w: 8.5, h: 11 },
+          boxes: [
+            { id: "r", type: "reference", label: "Paper", x: 10, y: 10, w: 85, h: 110 },
+            { id: "w1", type: "window", label: "Window 1", x: 200, y: 50, w: 300, h: 400, attrs: { quantity: 2 } },
+          ],
+        },
+      },
+    },
+  };
+}
+
+async function exported(mutate?: (doc: Record<string, unknown>) => void) {
+  const doc = JSON.parse(await exportJob(sampleJob(), DEFAULT_PRICE_BOOK));
+  mutate?.(doc);
+  return JSON.stringify(doc);
+}
+
+describe("job file", () => {
+  it("round-trips a job with its photos and price book", async () => {
+    const text = await exportJob(sampleJob(), DEFAULT_PRICE_BOOK);
+    const { job, priceBook } = parseJobFile(text);
+
+    expect(job.customerName).toBe("Pat Lee");
+    expect(job.markup).toEqual(sampleJob().markup);
+    expect(priceBook).toEqual(DEFAULT_PRICE_BOOK);
+
+    const bytes = new Uint8Array(await job.photos[0].blob.arrayBuffer());
+    expect(Array.from(bytes)).toEqual([0xff, 0xd8, 0x00, 0x7f, 0xff]);
+    expect(job.photos[0].blob.type).toBe("image/jpeg");
+  });
+
+  it("stamps the format and current version", async () => {
+    const doc = JSON.parse(await exportJob(sampleJob()));
+    expect(doc.format).toBe(JOB_FILE_FORMAT);
+    expect(doc.version).toBe(JOB_FILE_VERSION);
+  });
+
+  it("rejects non-JSON and foreign JSON", () => {
+    expect(() => parseJobFile("not json")).toThrow(/isn't valid JSON/);
+    expect(() => parseJobFile(JSON.stringify({ hello: 1 }))).toThrow(/isn't a Window SqFt Estimator job/);
+  });
+
+  it("carries a v1 price book's pane surcharge over to its new name", async () => {
+    const text = await exported((d) => {
+      d.version = 1;
+      const book = d.priceBook as Record<string, unknown>;
+      book.paneSurchargePerWindow = 15;
+      delete book.surchargePerExtraPane;
+    });
+    const { priceBook } = parseJobFile(text);
+    expect(priceBook?.surchargePerExtraPane).toBe(15);
+    expect(priceBook).not.toHaveProperty("paneSurchargePerWindow");
+  });
+
+  it("refuses files from a newer version", async () => {
+    const text = await exported((d) => (d.version = JOB_FILE_VERSION + 1));
+    expect(() => parseJobFile(text)).toThrow(/newer version/);
+  });
+
+  it("names the offending field in validation errors", async () => {
+    const text = await exported((d) => {
+      const job = d.job as { markup: { byPhoto: { p1: { boxes: { w: unknown }[] } } } };
+      job.markup.byPhoto.p1.boxes[1].w = "wide";
+    });
+    expect(() => parseJobFile(text)).toThrow(JobFileError);
+    expect(() => parseJobFile(text)).toThrow('job.markup.byPhoto["p1"].boxes[1].w should be a number');
+  });
+
+  it("rejects markup for photos missing from the file", async () => {
+    const text = await exported((d) => ((d.job as { photos: unknown[] }).photos = []));
+    expect(() => parseJobFile(text)).toThrow(/refers to a photo that isn't in the file/);
+  });
+
+  it("reports a photo that isn't an object instead of crashing", async () => {
+    const text = await exported((d) => ((d.job as { photos: unknown[] }).photos = [null]));
+    expect(() => parseJobFile(text)).toThrow(JobFileError);
+    expect(() => parseJobFile(text)).toThrow("job.photos[0] should be an object");
+  });
+
+  it("rejects names inherited from Object.prototype", async () => {
+    const elevation = await exported((d) => {
+      ((d.job as { photos: Record<string, unknown>[] }).photos[0].elevation = "constructor");
+    });
+    expect(() => parseJobFile(elevation)).toThrow(/job\.photos\[0\]\.elevation should be/);
+    const preset = await exported((d) => {
+      (d.job as { markup: { byPhoto: { p1: Record<string, unknown> } } }).markup.byPhoto.p1.refPreset = "toString";
+    });
+    expect(() => parseJobFile(preset)).toThrow(/refPreset should be/);
+  });
+
+  it.each([
+    ["excluded", "false", "attrs.excluded should be true or false"],
+    ["quantity", "lots", "attrs.quantity should be a whole number over 0"],
+    ["quantity", 0, "attrs.quantity should be a whole number over 0"],
+    ["panes", 1.5, "attrs.panes should be a whole number over 0"],
+    ["measuredWIn", -4, "attrs.measuredWIn should be 0 or more"],
+    ["frameIn", "2", "attrs.frameIn should be a number"],
+    ["productId", 7, "attrs.productId should be text"],
+  ])("rejects window attrs with %s: %j", async (key, value, message) => {
+    const text = await exported((d) => {
+      const boxes = (d.job as { markup: { byPhoto: { p1: { boxes: { attrs?: Record<string, unknown> }[] } } } }).markup
+        .byPhoto.p1.boxes;
+      boxes[1].attrs = { ...boxes[1].attrs, [key]: value };
+    });
+    expect(() => parseJobFile(text)).toThrow(`boxes[1].${message}`);
+  });
+
+  it("rejects a box with no size", async () => {
+    const text = await exported((d) => {
+      (d.job as { markup: { byPhoto: { p1: { boxes: Record<string, unknown>[] } } } }).markup.byPhoto.p1.boxes[1].w = -300;
+    });
+    expect(() => parseJobFile(text)).toThrow("boxes[1].w should be greater than 0");
+  });
+
+  it("checks the price book's fees, tax and volume tiers", async () => {
+    const tax = await exported((d) => ((d.priceBook as Record<string, unknown>).taxRate = "abc"));
+    expect(() => parseJobFile(tax)).toThrow("priceBook.taxRate should be a number");
+    const tiers = await exported((d) => ((d.priceBook as Record<string, unknown>).volumeTiers = "x"));
+    expect(() => parseJobFile(tiers)).toThrow("priceBook.volumeTiers should be a list");
+    const tier = await exported((d) => ((d.priceBook as Record<string, unknown>).volumeTiers = [{ minSqft: 10 }]));
+    expect(() => parseJobFile(tier)).toThrow("priceBook.volumeTiers[0].discountPct should be a number");
+  });
+
+  it("rejects unit names inherited from Object.prototype", async () => {
+    const units = await exported((d) => ((d.job as Record<string, unknown>).units = "toString"));
+    expect(() => parseJobFile(units)).toThrow("job.units should be");
+    const area = await exported((d) => ((d.priceBook as Record<string, unknown>).areaUnit = "constructor"));
+    expect(() => parseJobFile(area)).toThrow("priceBook.areaUnit should be");
+  });
+
+  it("upgrades a job saved with single-photo markup and fixed rates", async () => {
+    const text = await exported((d) => {
+      const job = d.job as Record<string, unknown>;
+      job.markup = {
+        boxes: [{ id: "w1", type: "window", label: "Window 1", x: 0, y: 0, w: 50, h: 50 }],
+        refPreset: "door",
+        refSize: { w: 36, h: 80 },
+      };
+      job.pricing = { solarPerSqft: 12, retailLowPerSqft: 14, retailHighPerSqft: 15 };
+      delete job.priceBookId;
+      delete job.units;
+      (job.photos as Record<string, unknown>[]).forEach((p) => delete p.elevation);
+    });
+
+    const { job } = parseJobFile(text);
+    expect(job.priceBookId).toBe(DEFAULT_PRICE_BOOK.id);
+    expect(job.units).toBe("imperial");
+    expect(job.photos[0].elevation).toBe("front");
+    expect(job.markup.byPhoto.p1.refPreset).toBe("door");
+    expect(job.markup.byPhoto.p1.boxes).toHaveLength(1);
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Job file format — a single JSON document for moving an estimate between
+ * devices (e.g. a rep's phone and the office).
+ *
+ *   {
+ *     "format": "window-sqft-estimator/job",
+ *     "version": 2,
+ *     "exportedAt": "2026-10-18T15:00:00.000Z",
+ *     "job": {
+ *       "id", "customerName", "address", "date" (YYYY-MM-DD),
+ *       "createdAt", "updatedAt" (epoch ms), "priceBookId", "areaBasis" ("opening" | "glass"),
+ *       "units" ("imperial" | "metric", optional; sizes are always stored in inches),
+ *       "photos": [{ "id", "name", "elevation", "room", "type", "data" (base64) }],
+ *       "markup": { "byPhoto": { [photoId]: { "boxes", "refPreset", "refSize" } } }
+ *         (a box may carry "quad", "shape", "points" and "attrs")
+ *       "deal": { "salePrice", "financingPct", "splits": [{ "id", "name", "pct" }] }   // optional
+ *     },
+ *     "priceBook": { ...PriceBook }   // optional snapshot of the job's pricing; rates per "areaUnit"
+ *   }
+ *
+ * Box geometry is in the photo's original pixel coordinates, so it stays valid
+ * as long as the embedded image is unchanged. Files are upgraded step by step
+ * through MIGRATIONS on import; files from a newer app version are refused.
+ */
+import { ELEVATIONS, normalizeJob } from "./jobs";
+import type { Job, JobPhoto } from "./jobs";
+import { normalizePriceBook } from "./pricing";
+import type { PriceBook } from "./pricing";
+import { REFERENCE_PRESETS } from "./calibration";
+import { WINDOW_SHAPES } from "./boxes";
+import { AREA_UNITS, UNIT_SYSTEMS } from "./units";
+
+export const JOB_FILE_FORMAT = "window-sqft-estimator/job";
+export const JOB_FILE_VERSION = 2;
+
+export class JobFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "JobFileError";
+  }
+}
+
+type StoredPhoto = Omit<JobPhoto, "blob"> & { type: string; data: string };
+
+export type JobFile = {
+  format: typeof JOB_FILE_FORMAT;
+  version: number;
+  exportedAt: string;
+  job: Omit<Job, "photos"> & { photos: StoredPhoto[] };
+  priceBook?: PriceBook;
+};
+
+// version N -> N+1 upgrades, keyed by N; add one whenever JOB_FILE_VERSION bumps
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 renamed the price book's paneSurchargePerWindow, which was always charged per extra pane
+  1: (doc) => {
+    if (!isObject(doc.priceBook) || !("paneSurchargePerWindow" in doc.priceBook)) return doc;
+    const { paneSurchargePerWindow, ...book } = doc.priceBook;
+    return { ...doc, priceBook: { ...book, surchargePerExtraPane: paneSurchargePerWindow } };
+  },
+};
+
+async function blobToBase64(blob: Blob) {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let bin = "";
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    bin += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(bin);
+}
+
+function base64ToBlob(data: string, type: string) {
+  const bin = atob(data);
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return new Blob([bytes], { type });
+}
+
+export async function exportJob(job: Job, priceBook?: PriceBook): Promise<string> {
+  const photos: StoredPhoto[] = [];
+  for (const { blob, ...rest } of job.photos) {
+    photos.push({ ...rest, type: blob.type || "image/jpeg", data: await blobToBase64(blob) });
+  }
+  const file: JobFile = {
+    format: JOB_FILE_FORMAT,
+    version: JOB_FILE_VERSION,
+    exportedAt: new Date().toISOString(),
+    job: { ...job, photos },
+    priceBook,
+  };
+  return JSON.stringify(file);
+}
+
+// --- validation -------------------------------------------------------------
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function fail(path: string, expected: string): never {
+  throw new JobFileError(`Invalid job file: ${path} should be ${expected}.`);
+}
+
+// own keys only: "constructor" or "toString" are found on every object through its prototype
+function isKeyOf<T extends object>(record: T, v: unknown): v is keyof T {
+  return typeof v === "string" && Object.hasOwn(record, v);
+}
+
+function str(o: Record<string, unknown>, key: string, path: string) {
+  if (typeof o[key] !== "string") fail(`${path}.${key}`, "text");
+  return o[key] as string;
+}
+
+function num(o: Record<string, unknown>, key: string, path: string) {
+  const v = o[key];
+  if (typeof v !== "number" || !Number.isFinite(v)) fail(`${path}.${key}`, "a number");
+  return v;
+}
+
+// every field is optional; missing ones take DEFAULT_WINDOW_ATTRS
+function validateAttrs(a: unknown, path: string) {
+  if (!isObject(a)) fail(path, "an object");
+  if (a.productId !== undefined) str(a, "productId", path);
+  if (a.excluded !== undefined && typeof a.excluded !== "boolean") fail(`${path}.excluded`, "true or false");
+  for (const k of ["floor", "panes", "quantity", "liteRows", "liteCols"]) {
+    const v = a[k];
+    if (v !== undefined && !(Number.isInteger(v) && (v as number) >= 1)) fail(`${path}.${k}`, "a whole number over 0");
+  }
+  for (const k of ["frameIn", "measuredWIn", "measuredHIn"]) {
+    if (a[k] !== undefined && num(a, k, path) < 0) fail(`${path}.${k}`, "0 or more");
+  }
+}
+
+function validateBox(b: unknown, path: string) {
+  if (!isObject(b)) fail(path, "an object");
+  str(b, "id", path);
+  str(b, "label", path);
+  if (b.type !== "reference" && b.type !== "window") fail(`${path}.type`, `"reference" or "window"`);
+  for (const k of ["x", "y", "w", "h"]) num(b, k, path);
+  for (const k of ["w", "h"]) if ((b[k] as number) <= 0) fail(`${path}.${k}`, "greater than 0");
+  if (b.quad !== undefined) {
+    if (!Array.isArray(b.quad) || b.quad.length !== 4) fail(`${path}.quad`, "a list of 4 corners");
+    b.quad.forEach((p, i) => {
+      if (!isObject(p)) fail(`${path}.quad[${i}]`, "a point");
+      num(p, "x", `${path}.quad[${i}]`);
+      num(p, "y", `${path}.quad[${i}]`);
+    });
+  }
+  if (b.shape !== undefined && !isKeyOf(WINDOW_SHAPES, b.shape)) {
+    fail(`${path}.shape`, Object.keys(WINDOW_SHAPES).join(" / "));
+  }
+  if (b.points !== undefined) {
+    if (!Array.isArray(b.points) || b.points.length < 3) fail(`${path}.points`, "a list of at least 3 corners");
+    b.points.forEach((p, i) => {
+      if (!isObject(p)) fail(`${path}.points[${i}]`, "a point");
+      num(p, "x", `${path}.points[${i}]`);
+      num(p, "y", `${path}.points[${i}]`);
+    });
+  }
+  if (b.attrs !== undefined) validateAttrs(b.attrs, `${path}.attrs`);
+}
+
+function validateJob(job: unknown) {
+  if (!isObject(job)) fail("job", "an object");
+  for (const k of ["id", "customerName", "address", "date", "priceBookId"]) str(job, k, "job");
+  num(job, "createdAt", "job");
+  num(job, "updatedAt", "job");
+  if (job.areaBasis !== "opening" && job.areaBasis !== "glass") fail("job.areaBasis", `"opening" or "glass"`);
+  if (job.units !== undefined && !isKeyOf(UNIT_SYSTEMS, job.units)) fail("job.units", `"imperial" or "metric"`);
+  if (job.deal !== undefined) {
+    if (!isObject(job.deal)) fail("job.deal", "an object");
+    num(job.deal, "salePrice", "job.deal");
+    num(job.deal, "financingPct", "job.deal");
+    if (!Array.isArray(job.deal.splits)) fail("job.deal.splits", "a list");
+    job.deal.splits.forEach((s, i) => {
+      const path = `job.deal.splits[${i}]`;
+      if (!isObject(s)) fail(path, "an object");
+      str(s, "id", path);
+      str(s, "name", path);
+      num(s, "pct", path);
+    });
+  }
+
+  if (!Array.isArray(job.photos)) fail("job.photos", "a list");
+  const photoIds = new Set<string>();
+  job.photos.forEach((p, i) => {
+    const path = `job.photos[${i}]`;
+    if (!isObject(p)) fail(path, "an object");
+    photoIds.add(str(p, "id", path));
+    str(p, "name", path);
+    str(p, "room", path);
+    str(p, "type", path);
+    str(p, "data", path);
+    if (!isKeyOf(ELEVATIONS, p.elevation)) fail(`${path}.elevation`, Object.keys(ELEVATIONS).join(" / "));
+  });
+
+  if (!isObject(job.markup) || !isObject(job.markup.byPhoto)) fail("job.markup.byPhoto", "an object");
+  for (const [photoId, pm] of Object.entries(job.markup.byPhoto)) {
+    const path = `job.markup.byPhoto["${photoId}"]`;
+    if (!photoIds.has(photoId)) {
+      throw new JobFileError(`Invalid job file: ${path} refers to a photo that isn't in the file.`);
+    }
+    if (!isObject(pm)) fail(path, "an object");
+    if (!Array.isArray(pm.boxes)) fail(`${path}.boxes`, "a list");
+    pm.boxes.forEach((b, i) => validateBox(b, `${path}.boxes[${i}]`));
+    if (pm.refPreset !== "custom" && !isKeyOf(REFERENCE_PRESETS, pm.refPreset)) {
+      fail(`${path}.refPreset`, `one of ${[...Object.keys(REFERENCE_PRESETS), "custom"].join(" / ")}`);
+    }
+    if (!isObject(pm.refSize)) fail(`${path}.refSize`, "an object");
+    if (!(num(pm.refSize, "w", `${path}.refSize`) > 0)) fail(`${path}.refSize.w`, "greater than 0");
+    if (!(num(pm.refSize, "h", `${path}.refSize`) > 0)) fail(`${path}.refSize.h`, "greater than 0");
+  }
+}
+
+function validatePriceBook(book: unknown) {
+  if (!isObject(book)) fail("priceBook", "an object");
+  str(book, "id", "priceBook");
+  str(book, "name", "priceBook");
+  for (const k of ["companyName", "companyContact"]) if (book[k] !== undefined) str(book, k, "priceBook");
+  if (!Array.isArray(book.products) || book.products.length === 0) fail("priceBook.products", "a non-empty list");
+  book.products.forEach((p, i) => {
+    const path = `priceBook.products[${i}]`;
+    if (!isObject(p)) fail(path, "an object");
+    str(p, "id", path);
+    str(p, "name", path);
+    for (const k of ["costPerSqft", "retailLowPerSqft", "retailHighPerSqft"]) num(p, k, path);
+  });
+  // fields a snapshot leaves out take the defaults in normalizePriceBook
+  const optional = [
+    "minimumCharge",
+    "installFeePerWindow",
+    "liftSurchargePerWindow",
+    "surchargePerExtraPane",
+    "taxRate",
+  ];
+  for (const k of optional) {
+    if (book[k] !== undefined) num(book, k, "priceBook");
+  }
+  if (book.volumeTiers !== undefined) {
+    if (!Array.isArray(book.volumeTiers)) fail("priceBook.volumeTiers", "a list");
+    book.volumeTiers.forEach((t, i) => {
+      const path = `priceBook.volumeTiers[${i}]`;
+      if (!isObject(t)) fail(path, "an object");
+      num(t, "minSqft", path);
+      num(t, "discountPct", path);
+    });
+  }
+  if (book.areaUnit !== undefined && !isKeyOf(AREA_UNITS, book.areaUnit)) fail("priceBook.areaUnit", `"sqft" or "m2"`);
+}
+
+/** Parse, migrate and validate a job file; throws JobFileError with a readable reason. */
+export function parseJobFile(text: string): { job: Job; priceBook: PriceBook | null } {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    throw new JobFileError("This file isn't valid JSON — it may be damaged or not a job file.");
+  }
+  if (!isObject(doc) || doc.format !== JOB_FILE_FORMAT) {
+    throw new JobFileError("This file isn't a Window SqFt Estimator job.");
+  }
+  if (typeof doc.version !== "number" || !Number.isInteger(doc.version) || doc.version < 1) {
+    fail("version", "a whole number");
+  }
+  if (doc.version > JOB_FILE_VERSION) {
+    throw new JobFileError(
+      `This job was exported by a newer version of the app (format v${doc.version}). Update the app to open it.`
+    );
+  }
+
+  let current = doc;
+  for (let v = doc.version as number; v < JOB_FILE_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new JobFileError(`No upgrade path from job format v${v}.`);
+    current = migrate(current);
+  }
+
+  // older job shapes inside the file (single photo, fixed rates) are upgraded like stored jobs
+  if (isObject(current.job) && Array.isArray(current.job.photos) && isObject(current.job.markup)) {
+    // normalizing reads every photo, so one that isn't an object is reported before it gets there
+    current.job.photos.forEach((p, i) => {
+      if (!isObject(p)) fail(`job.photos[${i}]`, "an object");
+    });
+    current = { ...current, job: normalizeJob(current.job as unknown as Job) };
+  }
+  validateJob(current.job);
+  if (current.priceBook !== undefined) validatePriceBook(current.priceBook);
+
+  const file = current as unknown as JobFile;
+  const photos: JobPhoto[] = file.job.photos.map(({ type, data, ...rest }) => {
+    try {
+      return { ...rest, blob: base64ToBlob(data, type) };
+    } catch {
+      throw new JobFileError(`Invalid job file: the image for photo "${rest.name}" is damaged.`);
+    }
+  });
+
+  return {
+    job: { ...file.job, photos },
+    priceBook: file.priceBook ? normalizePriceBook(file.priceBook) : null,
+  };
+}
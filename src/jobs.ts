@@ -0,0 +1,150 @@
+import { uid } from "./boxes";
+import type { Box } from "./boxes";
+import type { RefPreset, RefSize } from "./calibration";
+import type { AreaBasis } from "./measure";
+import { createDeal } from "./commission";
+import type { Deal } from "./commission";
+import { DEFAULT_PRICE_BOOK_ID } from "./pricing";
+import type { UnitSystem } from "./units";
+
+// markup and calibration for one photo; each photo carries its own reference
+export type PhotoMarkup = {
+  boxes: Box[];
+  refPreset: RefPreset;
+  refSize: RefSize;
+};
+
+export const INITIAL_PHOTO_MARKUP: PhotoMarkup = {
+  boxes: [],
+  refPreset: "paper",
+  refSize: { w: 8.5, h: 11 }, // letter paper default
+};
+
+// everything undo/redo covers, keyed by photo id
+export type Markup = {
+  byPhoto: Record<string, PhotoMarkup>;
+};
+
+export const INITIAL_MARKUP: Markup = { byPhoto: {} };
+
+export type Elevation = "front" | "rear" | "left" | "right" | "interior";
+
+export const ELEVATIONS: Record<Elevation, string> = {
+  front: "Front",
+  rear: "Rear",
+  left: "Left side",
+  right: "Right side",
+  interior: "Interior",
+};
+
+export type JobPhoto = {
+  id: string;
+  name: string;
+  blob: Blob;
+  elevation: Elevation;
+  room: string; // free text, e.g. "Kitchen" for interior shots
+};
+
+export type Job = {
+  id: string;
+  customerName: string;
+  address: string;
+  date: string; // YYYY-MM-DD, the visit date shown on the estimate
+  createdAt: number;
+  updatedAt: number;
+  photos: JobPhoto[];
+  markup: Markup;
+  priceBookId: string;
+  areaBasis: AreaBasis;
+  units: UnitSystem; // how sizes are entered and shown; stored values stay in inches
+  deal: Deal;
+};
+
+function today() {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function createJob(): Job {
+  const now = Date.now();
+  return {
+    id: uid(),
+    customerName: "",
+    address: "",
+    date: today(),
+    createdAt: now,
+    updatedAt: now,
+    photos: [],
+    markup: INITIAL_MARKUP,
+    priceBookId: DEFAULT_PRICE_BOOK_ID,
+    areaBasis: "opening",
+    units: "imperial",
+    deal: createDeal(),
+  };
+}
+
+export function photoMarkup(markup: Markup, photoId: string): PhotoMarkup {
+  return markup.byPhoto[photoId] ?? INITIAL_PHOTO_MARKUP;
+}
+
+export function allBoxes(markup: Markup) {
+  return Object.values(markup.byPhoto).flatMap((pm) => pm.boxes);
+}
+
+/**
+ * Bring a stored job up to the current shape. Jobs saved before multi-photo
+ * support had a single photo and one top-level markup; jobs saved before
+ * price books carried fixed per-sqft rates, which the default book reproduces.
+ * Jobs from before glass-only pricing were priced on the rough opening, and
+ * jobs from before the commission panel have no agreed price yet. Jobs from
+ * before metric units were all in inches.
+ */
+export function normalizeJob(stored: Job): Job {
+  const raw = {
+    ...stored,
+    priceBookId: stored.priceBookId ?? DEFAULT_PRICE_BOOK_ID,
+    areaBasis: stored.areaBasis ?? "opening",
+    units: stored.units ?? "imperial",
+    deal: stored.deal ?? createDeal(),
+  };
+  delete (raw as { pricing?: unknown }).pricing;
+
+  const legacy = raw.markup as unknown as Partial<PhotoMarkup> & Partial<Markup>;
+  const photos = raw.photos.map((p) => ({ ...p, elevation: p.elevation ?? "front", room: p.room ?? "" }));
+  if (legacy.byPhoto) return { ...raw, photos };
+
+  const byPhoto: Record<string, PhotoMarkup> = {};
+  if (photos[0]) {
+    byPhoto[photos[0].id] = {
+      boxes: legacy.boxes ?? [],
+      refPreset: legacy.refPreset ?? INITIAL_PHOTO_MARKUP.refPreset,
+      refSize: legacy.refSize ?? INITIAL_PHOTO_MARKUP.refSize,
+    };
+  }
+  return { ...raw, photos, markup: { byPhoto } };
+}
+
+export function duplicateJob(job: Job): Job {
+  const now = Date.now();
+  return {
+    ...job,
+    id: uid(),
+    customerName: job.customerName ? `${job.customerName} (copy)` : "",
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** A fresh job with nothing entered is not worth a row in the saved list. */
+export function isBlankJob(job: Job) {
+  return !job.customerName && !job.address && job.photos.length === 0 && allBoxes(job.markup).length === 0;
+}
+
+export function photoTitle(photo: JobPhoto) {
+  return photo.room ? `${ELEVATIONS[photo.elevation]} · ${photo.room}` : ELEVATIONS[photo.elevation];
+}
+
+export function jobTitle(job: Job) {
+  return job.customerName || job.address || "Untitled job";
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_WINDOW_ATTRS } from "./boxes";
+import { glassFraction, measurePhoto, shapeFraction } from "./measure";
+import type { PhotoMarkup } from "./jobs";
+
+describe("glassFraction", () => {
+  it("is the whole opening with no frame", () => {
+    expect(glassFraction(36, 48, DEFAULT_WINDOW_ATTRS)).toBe(1);
+  });
+
+  it("takes the frame off every side and a mullion between each lite", () => {
+    // 2×3 lites, 2" frame: glass is (36 − 4×2) × (48 − 3×2)
+    const a = { ...DEFAULT_WINDOW_ATTRS, liteRows: 2, liteCols: 3, frameIn: 2 };
+    expect(glassFraction(36, 48, a)).toBeCloseTo((28 * 42) / (36 * 48));
+  });
+
+  it("never goes negative when the frame is wider than the opening", () => {
+    expect(glassFraction(10, 10, { ...DEFAULT_WINDOW_ATTRS, frameIn: 6 })).toBe(0);
+  });
+});
+
+describe("shapeFraction", () => {
+  it("uses the inscribed ellipse and triangle areas", () => {
+    expect(shapeFraction("ellipse", 40, 20)).toBeCloseTo(Math.PI / 4);
+    expect(shapeFraction("triangle", 40, 20)).toBe(0.5);
+    expect(shapeFraction("rect", 40, 20)).toBe(1);
+  });
+
+  it("adds a half-round head to the straight legs of an arch", () => {
+    // a half-round transom is all head: half of a 40" circle
+    expect(shapeFraction("arch", 40, 20) * 40 * 20).toBeCloseTo((Math.PI * 20 * 20) / 2);
+    // 40×50: 30" of legs plus the same head
+    expect(shapeFraction("arch", 40, 50) * 40 * 50).toBeCloseTo(30 * 40 + (Math.PI * 20 * 20) / 2);
+  });
+});
+
+describe("measurePhoto", () => {
+  it("totals glass-only area alongside the rough opening", () => {
+    // 10 px per inch from a letter sheet drawn 85×110 px
+    const pm: PhotoMarkup = {
+      refPreset: "paper",
+      refSize: { w: 8.5, h: 11 },
+      boxes: [
+        { id: "r", type: "reference", label: "Paper", x: 0, y: 0, w: 85, h: 110 },
+        { id: "w", type: "window", label: "W", x: 100, y: 0, w: 240, h: 240, attrs: { frameIn: 2, quantity: 2 } },
+      ],
+    };
+    const m = measurePhoto(pm);
+    expect(m.sqft).toBeCloseTo(8);
+    expect(m.glassSqft).toBeCloseTo((2 * 20 * 20) / 144);
+    expect(m.windows.get("w")?.glassSqft).toBeCloseTo((20 * 20) / 144);
+    // one window, so its own and the reference's error stack on the counted pair
+    const e = m.windows.get("w")!.error;
+    expect(m.sqftError).toBeCloseTo(8 * Math.hypot(e.own, e.reference));
+    expect(m.referenceTooSmall).toBe(false);
+  });
+
+  it("measures polygons by their own area rather than the bounding box", () => {
+    const pm: PhotoMarkup = {
+      refPreset: "paper",
+      refSize: { w: 8.5, h: 11 },
+      boxes: [
+        { id: "r", type: "reference", label: "Paper", x: 0, y: 0, w: 85, h: 110 },
+        {
+          id: "g",
+          type: "window",
+          label: "Gable",
+          shape: "polygon",
+          points: [
+            { x: 100, y: 240 },
+            { x: 220, y: 0 },
+            { x: 340, y: 240 },
+          ],
+          x: 100,
+          y: 0,
+          w: 240,
+          h: 240,
+        },
+      ],
+    };
+    const m = measurePhoto(pm).windows.get("g");
+    expect(m?.wIn).toBeCloseTo(24);
+    expect(m?.sqft).toBeCloseTo((24 * 24) / 2 / 144);
+  });
+
+  describe("tape measurements", () => {
+    // reference says 10 px per inch; the window is drawn 240×240 px
+    const withTape = (measuredWIn: number, measuredHIn: number, reference = true): PhotoMarkup => ({
+      refPreset: "paper",
+      refSize: { w: 8.5, h: 11 },
+      boxes: [
+        ...(reference ? [{ id: "r", type: "reference" as const, label: "Paper", x: 0, y: 0, w: 85, h: 110 }] : []),
+        { id: "w", type: "window", label: "W", x: 100, y: 0, w: 240, h: 240, attrs: { measuredWIn, measuredHIn } },
+        { id: "v", type: "window", label: "V", x: 400, y: 0, w: 120, h: 120 },
+      ],
+    });
+
+    it("overrides the photo size and refines the scale for other windows", () => {
+      const m = measurePhoto(withTape(25, 25));
+      expect(m.windows.get("w")).toMatchObject({ wIn: 25, hIn: 25 });
+      expect(m.windows.get("w")?.sqft).toBeCloseTo((25 * 25) / 144);
+      expect(m.tapeSides).toBe(2);
+      // the longer tape-measured edge outweighs the small reference, pulling the scale toward 9.6 px/in
+      expect(m.scale!.x).toBeGreaterThan(9.6);
+      expect(m.scale!.x).toBeLessThan(9.8);
+      expect(m.tapeChecks).toEqual([expect.objectContaining({ boxId: "w", inconsistent: false })]);
+    });
+
+    it("flags a reading far from what the reference measures", () => {
+      const check = measurePhoto(withTape(30, 0)).tapeChecks[0];
+      expect(check.photoWIn).toBeCloseTo(24);
+      expect(check.off).toBeCloseTo(0.2);
+      expect(check.inconsistent).toBe(true);
+    });
+
+    it("calibrates a photo from tape measurements alone", () => {
+      const m = measurePhoto(withTape(24, 0, false));
+      expect(m.scale).toEqual({ x: 10, y: 10 });
+      expect(m.windows.get("v")?.wIn).toBeCloseTo(12);
+      expect(m.tapeChecks).toEqual([]);
+    });
+  });
+});
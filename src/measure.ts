@@ -0,0 +1,209 @@
+import { applyHomography, computeHomography, measureQuad, pointBounds, polygonArea, rectToQuad } from "./geometry";
+import type { Homography, Point } from "./geometry";
+import { computeScale, fitScale } from "./calibration";
+import type { Scale, ScaleSample } from "./calibration";
+import {
+  MARK_ERROR_PX,
+  areaError,
+  combinedError,
+  lengthError,
+  referenceTooSmall,
+  scaleError,
+  totalError,
+} from "./accuracy";
+import type { AreaError } from "./accuracy";
+import { boxShape, countedQuantity, windowAttrs } from "./boxes";
+import type { Box, WindowAttrs, WindowShape } from "./boxes";
+import type { PhotoMarkup } from "./jobs";
+
+// what a job is priced on: the whole rough opening, or the glass film actually covers
+export type AreaBasis = "opening" | "glass";
+
+export type WindowMeasurement = { wIn: number; hIn: number; sqft: number; glassSqft: number; error: AreaError };
+
+export type PhotoMeasurement = {
+  referenceBox: Box | null;
+  scale: Scale | null; // fitted from the reference and any tape-measured sides
+  homography: Homography | null; // image px -> real inches, only for a 4-corner reference
+  windows: Map<string, WindowMeasurement>;
+  sqft: number | null; // counted area (quantity × size, exclusions skipped); null until calibrated
+  glassSqft: number | null; // the same, glass only
+  sqftError: number | null; // likely ± on sqft from marking precision
+  glassSqftError: number | null;
+  referenceTooSmall: boolean; // windows dwarf the reference, so its error is magnified
+  tapeSides: number; // tape-measured sides folded into a flat photo's scale
+  tapeChecks: TapeCheck[]; // one per tape-measured window, against the reference alone
+};
+
+// a tape reading this far from the photo (or twice the photo's expected error) is flagged
+export const TAPE_TOLERANCE = 0.05;
+
+export type TapeCheck = {
+  boxId: string;
+  photoWIn: number; // what the reference alone makes of the window
+  photoHIn: number;
+  off: number; // worst relative disagreement over the measured sides
+  inconsistent: boolean;
+};
+
+/** Share of the opening left as glass after the frame and the mullions between lites. */
+export function glassFraction(wIn: number, hIn: number, a: WindowAttrs) {
+  if (!(wIn > 0 && hIn > 0)) return 0;
+  const rows = Math.max(1, Math.round(a.liteRows));
+  const cols = Math.max(1, Math.round(a.liteCols));
+  const frame = Math.max(0, a.frameIn);
+  const glassW = Math.max(0, wIn - (cols + 1) * frame);
+  const glassH = Math.max(0, hIn - (rows + 1) * frame);
+  return (glassW * glassH) / (wIn * hIn);
+}
+
+/** Area of a shape inscribed in a w×h box, as a share of the box (polygons are measured directly). */
+export function shapeFraction(shape: WindowShape, w: number, h: number) {
+  switch (shape) {
+    case "ellipse":
+      return Math.PI / 4;
+    case "triangle":
+      return 0.5;
+    case "arch": {
+      // straight legs below a half-ellipse head of rise min(h, w/2), as drawn
+      if (!(w > 0 && h > 0)) return 0;
+      const rise = Math.min(h, w / 2);
+      return ((h - rise) * w + (Math.PI * w * rise) / 4) / (w * h);
+    }
+    default:
+      return 1;
+  }
+}
+
+/** One opening's area on the chosen basis. */
+export function windowSqft(m: WindowMeasurement, basis: AreaBasis) {
+  return basis === "glass" ? m.glassSqft : m.sqft;
+}
+
+type Size = { wIn: number; hIn: number; sqft: number };
+
+// rectified through the homography, else flat per-axis scale
+function photoSize(b: Box, homography: Homography | null, scale: Scale | null): Size | null {
+  if (homography && b.points) {
+    const real = b.points.map((p) => applyHomography(homography, p));
+    if (!real.every((p): p is Point => p !== null)) return null;
+    const { w, h } = pointBounds(real);
+    return { wIn: w, hIn: h, sqft: polygonArea(real) / 144 };
+  }
+  if (homography) {
+    const m = measureQuad(homography, b.quad ?? rectToQuad(b.x, b.y, b.w, b.h));
+    if (!m) return null;
+    return { wIn: m.width, hIn: m.height, sqft: (m.area * shapeFraction(boxShape(b), m.width, m.height)) / 144 };
+  }
+  if (!scale) return null;
+  const wIn = b.w / scale.x;
+  const hIn = b.h / scale.y;
+  const areaIn = b.points
+    ? polygonArea(b.points) / (scale.x * scale.y)
+    : wIn * hIn * shapeFraction(boxShape(b), wIn, hIn);
+  return { wIn, hIn, sqft: areaIn / 144 };
+}
+
+/** Real-world size of every window on one photo, from that photo's own reference and any tape measurements. */
+export function measurePhoto(pm: PhotoMarkup): PhotoMeasurement {
+  const { boxes, refSize } = pm;
+  const referenceBox = boxes.find((b) => b.type === "reference") ?? null;
+  const windowBoxes = boxes.filter((b) => b.type === "window");
+
+  const refScale = referenceBox ? computeScale(referenceBox.w, referenceBox.h, refSize) : null;
+  // a 4-corner reference is judged by its bounding box, close enough for an error estimate
+  const refError = referenceBox ? scaleError(referenceBox) : null;
+
+  const homography =
+    referenceBox?.quad && refSize.w > 0 && refSize.h > 0
+      ? computeHomography(referenceBox.quad, rectToQuad(0, 0, refSize.w, refSize.h))
+      : null;
+
+  // on a flat photo, tape-measured sides are extra references, weighted by the pixels they span
+  const samples: ScaleSample[] = [];
+  if (refScale && refError) {
+    samples.push({ axis: "x", ppi: refScale.x, error: refError.x }, { axis: "y", ppi: refScale.y, error: refError.y });
+  }
+  let tapeSides = 0;
+  if (!homography) {
+    for (const b of windowBoxes) {
+      const a = windowAttrs(b);
+      const error = { x: lengthError(b.w, MARK_ERROR_PX), y: lengthError(b.h, MARK_ERROR_PX) };
+      if (a.measuredWIn > 0) samples.push({ axis: "x", ppi: b.w / a.measuredWIn, error: error.x });
+      if (a.measuredHIn > 0) samples.push({ axis: "y", ppi: b.h / a.measuredHIn, error: error.y });
+    }
+    tapeSides = samples.length - (refScale ? 2 : 0);
+  }
+  const fitted = homography ? null : fitScale(samples);
+  const scale = homography ? refScale : (fitted?.scale ?? null);
+  const fitError = homography ? refError : (fitted?.error ?? null);
+
+  const windows = new Map<string, WindowMeasurement>();
+  const tapeChecks: TapeCheck[] = [];
+  for (const b of windowBoxes) {
+    const photo = photoSize(b, homography, scale);
+    if (!photo || !fitError) continue;
+    const a = windowAttrs(b);
+    const tape = { wIn: a.measuredWIn, hIn: a.measuredHIn };
+
+    // a tape reading replaces its side; the outline's shape still sets the area
+    let size = photo;
+    if (tape.wIn > 0 || tape.hIn > 0) {
+      const wIn = tape.wIn > 0 ? tape.wIn : photo.wIn;
+      const hIn = tape.hIn > 0 ? tape.hIn : photo.hIn;
+      const stretch = photo.wIn > 0 && photo.hIn > 0 ? (wIn * hIn) / (photo.wIn * photo.hIn) : 0;
+      size = { wIn, hIn, sqft: photo.sqft * stretch };
+
+      // cross-check against the reference alone, so a reading can't vouch for itself
+      const byReference = homography ? photo : photoSize(b, null, refScale);
+      if (byReference && refError) {
+        const off = Math.max(
+          tape.wIn > 0 ? Math.abs(byReference.wIn - tape.wIn) / tape.wIn : 0,
+          tape.hIn > 0 ? Math.abs(byReference.hIn - tape.hIn) / tape.hIn : 0
+        );
+        const expected = totalError(areaError(b, refError));
+        tapeChecks.push({
+          boxId: b.id,
+          photoWIn: byReference.wIn,
+          photoHIn: byReference.hIn,
+          off,
+          inconsistent: off > Math.max(TAPE_TOLERANCE, 2 * expected),
+        });
+      }
+    }
+
+    const glassSqft = size.sqft * glassFraction(size.wIn, size.hIn, a);
+    windows.set(b.id, { ...size, glassSqft, error: areaError(b, fitError, tape) });
+  }
+
+  let sqft: number | null = null;
+  let glassSqft: number | null = null;
+  let sqftError: number | null = null;
+  let glassSqftError: number | null = null;
+  if (homography || scale) {
+    // identical copies share one set of marks, so their errors add straight
+    const counted = boxes.flatMap((b) => {
+      const m = windows.get(b.id);
+      return m ? [{ m, qty: countedQuantity(b) }] : [];
+    });
+    sqft = counted.reduce((n, { m, qty }) => n + m.sqft * qty, 0);
+    glassSqft = counted.reduce((n, { m, qty }) => n + m.glassSqft * qty, 0);
+    sqftError = combinedError(counted.map(({ m, qty }) => ({ sqft: m.sqft * qty, error: m.error })));
+    glassSqftError = combinedError(counted.map(({ m, qty }) => ({ sqft: m.glassSqft * qty, error: m.error })));
+  }
+
+  return {
+    referenceBox,
+    scale,
+    homography,
+    windows,
+    sqft,
+    glassSqft,
+    sqftError,
+    glassSqftError,
+    referenceTooSmall:
+      !!referenceBox && referenceTooSmall(referenceBox, windowBoxes.filter((b) => countedQuantity(b) > 0)),
+    tapeSides,
+    tapeChecks,
+  };
+}
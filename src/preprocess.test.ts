@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { canvasFit, rotatedSize, straightenAngle } from "./preprocess";
+
+const deg = (r: number) => (r * 180) / Math.PI;
+
+describe("straightenAngle", () => {
+  it("levels a nearly horizontal line", () => {
+    // drops 5 px over 100: turn back by the same angle
+    expect(deg(straightenAngle({ x: 0, y: 0 }, { x: 100, y: 5 }))).toBeCloseTo(-deg(Math.atan(0.05)));
+    // drawn right to left it's the same line
+    expect(deg(straightenAngle({ x: 100, y: 5 }, { x: 0, y: 0 }))).toBeCloseTo(-deg(Math.atan(0.05)));
+  });
+
+  it("plumbs a nearly vertical line", () => {
+    expect(deg(straightenAngle({ x: 0, y: 0 }, { x: 4, y: 100 }))).toBeCloseTo(deg(Math.atan(0.04)));
+  });
+
+  it("leaves square lines alone", () => {
+    expect(straightenAngle({ x: 0, y: 0 }, { x: 100, y: 0 })).toBeCloseTo(0);
+    expect(straightenAngle({ x: 0, y: 0 }, { x: 0, y: -50 })).toBeCloseTo(0);
+  });
+});
+
+describe("rotatedSize", () => {
+  it("swaps sides on a quarter turn and grows to fit in between", () => {
+    expect(rotatedSize(400, 300, Math.PI / 2)).toEqual({ width: 300, height: 400 });
+    const tilted = rotatedSize(400, 300, Math.PI / 36);
+    expect(tilted.width).toBeGreaterThan(400);
+    expect(tilted.height).toBeGreaterThan(300);
+  });
+});
+
+describe("canvasFit", () => {
+  it("only shrinks photos past the canvas limit", () => {
+    expect(canvasFit(4000, 3000)).toBe(1);
+    const k = canvasFit(8000, 6000);
+    expect(8000 * 6000 * k * k).toBeCloseTo(16_000_000, -3);
+  });
+});
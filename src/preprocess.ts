@@ -0,0 +1,112 @@
+import type { Point } from "./geometry";
+import { orientationTransform, readJpegOrientation } from "./exif";
+
+// long side of the copy drawn on screen; boxes stay in the original's pixels
+export const WORKING_MAX_PX = 2048;
+// iOS refuses canvases past ~16.7 MP, so re-encoded photos are kept under it
+const MAX_CANVAS_PX = 16_000_000;
+
+export type WorkingImage = { source: CanvasImageSource; k: number }; // k = working px per original px
+
+export function loadImage(blob: Blob) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Could not read the photo."));
+    };
+    img.src = url;
+  });
+}
+
+/** Scale that keeps a w×h canvas within what every browser will allocate. */
+export function canvasFit(w: number, h: number) {
+  return Math.min(1, Math.sqrt(MAX_CANVAS_PX / (w * h)));
+}
+
+// draw onto a fresh canvas of the given size and encode it as a JPEG
+function renderJpeg(width: number, height: number, draw: (ctx: CanvasRenderingContext2D) => void) {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.reject(new Error("Canvas 2D is not available in this browser."));
+  draw(ctx);
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Could not save the photo."))), "image/jpeg", 0.92)
+  );
+}
+
+/**
+ * The photo with its pixels turned upright. Browsers that already honour
+ * EXIF orientation (anything supporting `image-orientation`) get it as is,
+ * so a photo is never turned twice.
+ */
+export async function uprightPhoto(file: Blob): Promise<Blob> {
+  if (typeof CSS !== "undefined" && CSS.supports("image-orientation", "from-image")) return file;
+  // the EXIF block sits in the first APP1 segment, at most 64 KB in
+  const orientation = readJpegOrientation(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (orientation === 1) return file;
+
+  const img = await loadImage(file);
+  const fit = canvasFit(img.naturalWidth, img.naturalHeight);
+  const { width, height, matrix } = orientationTransform(orientation, img.naturalWidth * fit, img.naturalHeight * fit);
+  return renderJpeg(Math.round(width), Math.round(height), (ctx) => {
+    ctx.transform(...matrix);
+    ctx.drawImage(img, 0, 0, img.naturalWidth * fit, img.naturalHeight * fit);
+  });
+}
+
+/**
+ * A downscaled copy for drawing every frame; a 48 MP photo is far more than
+ * any screen shows and slows each redraw. Small photos are used as they are.
+ */
+export function workingImage(img: HTMLImageElement): WorkingImage {
+  const k = Math.min(1, WORKING_MAX_PX / Math.max(img.naturalWidth, img.naturalHeight));
+  if (k === 1) return { source: img, k };
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(img.naturalWidth * k);
+  canvas.height = Math.round(img.naturalHeight * k);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return { source: img, k: 1 };
+  ctx.imageSmoothingQuality = "high";
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return { source: canvas, k };
+}
+
+/**
+ * Rotation (radians, clockwise on screen) that squares up a line drawn along
+ * something level or plumb; the line is taken as whichever it is closer to.
+ */
+export function straightenAngle(a: Point, b: Point) {
+  const angle = Math.atan2(b.y - a.y, b.x - a.x);
+  const quarter = Math.round(angle / (Math.PI / 2)) * (Math.PI / 2);
+  return quarter - angle;
+}
+
+/** Size of the canvas that holds a w×h image turned by angle without clipping a corner. */
+export function rotatedSize(w: number, h: number, angle: number) {
+  const cos = Math.abs(Math.cos(angle));
+  const sin = Math.abs(Math.sin(angle));
+  return { width: Math.round(w * cos + h * sin), height: Math.round(w * sin + h * cos) };
+}
+
+/** The photo turned by angle (radians, clockwise), with the uncovered corners left black. */
+export async function rotatePhoto(blob: Blob, angle: number): Promise<Blob> {
+  const img = await loadImage(blob);
+  const size = rotatedSize(img.naturalWidth, img.naturalHeight, angle);
+  const fit = canvasFit(size.width, size.height);
+  return renderJpeg(Math.round(size.width * fit), Math.round(size.height * fit), (ctx) => {
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    ctx.translate(ctx.canvas.width / 2, ctx.canvas.height / 2);
+    ctx.rotate(angle);
+    ctx.scale(fit, fit);
+    ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2);
+  });
+}
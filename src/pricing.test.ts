@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PRICE_BOOK, normalizePriceBook, priceJob, tierDiscount } from "./pricing";
+import type { PriceBook } from "./pricing";
+
+const book: PriceBook = {
+  id: "test",
+  name: "Test",
+  companyName: "",
+  companyContact: "",
+  products: [
+    { id: "solar", name: "Solar", costPerSqft: 12, retailLowPerSqft: 14, retailHighPerSqft: 15 },
+    { id: "security", name: "Security", costPerSqft: 20, retailLowPerSqft: 25, retailHighPerSqft: 30 },
+  ],
+  minimumCharge: 0,
+  volumeTiers: [],
+  installFeePerWindow: 0,
+  liftSurchargePerWindow: 0,
+  surchargePerExtraPane: 0,
+  taxRate: 0,
+  areaUnit: "sqft",
+};
+
+describe("priceJob", () => {
+  it("matches the original hard-coded solar pricing with the default book", () => {
+    const q = priceJob(DEFAULT_PRICE_BOOK, [{ productId: "solar", sqft: 100, windows: 4 }]);
+    expect(q.subtotalLow).toBe(1400);
+    expect(q.subtotalHigh).toBe(1500);
+    expect(q.commissionLow).toBe(200);
+    expect(q.commissionHigh).toBe(300);
+    expect(q.totalHigh).toBe(1500);
+  });
+
+  it("prices each product line separately and merges repeated products", () => {
+    const q = priceJob(book, [
+      { productId: "solar", sqft: 10, windows: 1 },
+      { productId: "security", sqft: 4, windows: 1 },
+      { productId: "solar", sqft: 6, windows: 2 },
+    ]);
+    expect(q.lines).toHaveLength(2);
+    const solar = q.lines.find((l) => l.product.id === "solar")!;
+    expect(solar.sqft).toBe(16);
+    expect(solar.windows).toBe(3);
+    expect(q.sqft).toBe(20);
+    expect(q.cost).toBe(16 * 12 + 4 * 20);
+    expect(q.subtotalLow).toBe(16 * 14 + 4 * 25);
+  });
+
+  it("falls back to the first product for unknown product ids", () => {
+    const q = priceJob(book, [{ productId: "gone", sqft: 10, windows: 1 }]);
+    expect(q.lines[0].product.id).toBe("solar");
+    expect(q.subtotalLow).toBe(140);
+  });
+
+  it("applies the largest qualifying volume tier to product retail only", () => {
+    const tiered = {
+      ...book,
+      volumeTiers: [
+        { minSqft: 50, discountPct: 5 },
+        { minSqft: 200, discountPct: 10 },
+      ],
+    };
+    const q = priceJob(tiered, [{ productId: "solar", sqft: 100, windows: 0 }]);
+    expect(q.discountPct).toBe(5);
+    expect(q.subtotalLow).toBeCloseTo(1330);
+    expect(q.cost).toBe(1200);
+  });
+
+  it("adds install fees to the subtotal but not to commission", () => {
+    const q = priceJob({ ...book, installFeePerWindow: 25 }, [{ productId: "solar", sqft: 10, windows: 4 }]);
+    expect(q.installFees).toBe(100);
+    expect(q.subtotalLow).toBe(240);
+    expect(q.commissionLow).toBe(20);
+  });
+
+  it("charges the lift surcharge only for upper-floor windows", () => {
+    const q = priceJob({ ...book, liftSurchargePerWindow: 40 }, [
+      { productId: "solar", sqft: 10, windows: 3, liftWindows: 2 },
+    ]);
+    expect(q.liftFees).toBe(80);
+    expect(q.subtotalLow).toBe(220);
+    expect(q.commissionLow).toBe(20);
+  });
+
+  it("charges the pane surcharge for each pane past the first", () => {
+    // two double-glazed windows and one triple
+    const q = priceJob({ ...book, surchargePerExtraPane: 15 }, [
+      { productId: "solar", sqft: 10, windows: 2, extraPanes: 2 },
+      { productId: "security", sqft: 4, windows: 1, extraPanes: 2 },
+    ]);
+    expect(q.paneFees).toBe(60);
+    expect(q.subtotalLow).toBe(140 + 100 + 60);
+    expect(q.commissionLow).toBe(20 + 20);
+  });
+
+  it("keeps the pane surcharge of a book saved under its old name", () => {
+    const saved: Record<string, unknown> = { ...book, paneSurchargePerWindow: 15 };
+    delete saved.surchargePerExtraPane;
+    expect(normalizePriceBook(saved as PriceBook).surchargePerExtraPane).toBe(15);
+  });
+
+  it("raises small jobs to the minimum charge", () => {
+    const q = priceJob({ ...book, minimumCharge: 250 }, [{ productId: "solar", sqft: 10, windows: 1 }]);
+    expect(q.minimumApplied).toBe(true);
+    expect(q.subtotalLow).toBe(250);
+    expect(q.subtotalHigh).toBe(250);
+    expect(q.commissionLow).toBe(130);
+  });
+
+  it("adds tax on top of the subtotal without touching commission", () => {
+    const q = priceJob({ ...book, taxRate: 10 }, [{ productId: "solar", sqft: 10, windows: 1 }]);
+    expect(q.taxLow).toBeCloseTo(14);
+    expect(q.totalLow).toBeCloseTo(154);
+    expect(q.commissionLow).toBe(20);
+  });
+
+  it("returns an empty quote for no input", () => {
+    const q = priceJob(book, []);
+    expect(q.lines).toEqual([]);
+    expect(q.totalHigh).toBe(0);
+  });
+
+  it("applies per-m² rates and tiers to the area in m²", () => {
+    const metric: PriceBook = { ...book, areaUnit: "m2", volumeTiers: [{ minSqft: 10, discountPct: 10 }] };
+    // 10 m² of film
+    const q = priceJob(metric, [{ productId: "solar", sqft: 107.64, windows: 1 }]);
+    expect(q.cost).toBeCloseTo(120, 2);
+    expect(q.discountPct).toBe(10);
+    expect(q.subtotalLow).toBeCloseTo(126, 2);
+    expect(q.sqft).toBe(107.64);
+  });
+});
+
+describe("tierDiscount", () => {
+  it("is zero below every tier", () => {
+    expect(tierDiscount([{ minSqft: 100, discountPct: 5 }], 99)).toBe(0);
+  });
+
+  it("does not depend on tier order", () => {
+    const tiers = [
+      { minSqft: 300, discountPct: 12 },
+      { minSqft: 100, discountPct: 5 },
+    ];
+    expect(tierDiscount(tiers, 150)).toBe(5);
+    expect(tierDiscount(tiers, 300)).toBe(12);
+  });
+});
@@ -0,0 +1,191 @@
+import { uid } from "./boxes";
+import { fromSqft } from "./units";
+import type { AreaUnit } from "./units";
+
+// rates and tier thresholds are per the book's areaUnit; the field names date from sq ft only
+export type Product = {
+  id: string;
+  name: string;
+  costPerSqft: number; // what the film costs us installed, before commission
+  retailLowPerSqft: number;
+  retailHighPerSqft: number;
+};
+
+export type VolumeTier = {
+  minSqft: number; // in the book's areaUnit
+  discountPct: number; // off product retail, 0-100
+};
+
+export type PriceBook = {
+  id: string;
+  name: string;
+  companyName: string; // customer quote header; blank leaves it off
+  companyContact: string; // e.g. phone and email, under the name
+  products: Product[];
+  minimumCharge: number; // pre-tax floor for the whole job
+  volumeTiers: VolumeTier[];
+  installFeePerWindow: number;
+  liftSurchargePerWindow: number; // windows above the ground floor
+  surchargePerExtraPane: number; // each pane past the first, for double and triple glazing
+  taxRate: number; // percent, e.g. 8.25
+  areaUnit: AreaUnit; // what the product rates and volume tiers are per
+};
+
+export const DEFAULT_PRICE_BOOK_ID = "default";
+
+export const DEFAULT_PRICE_BOOK: PriceBook = {
+  id: DEFAULT_PRICE_BOOK_ID,
+  name: "Standard",
+  companyName: "",
+  companyContact: "",
+  products: [
+    { id: "solar", name: "Solar film", costPerSqft: 12, retailLowPerSqft: 14, retailHighPerSqft: 15 },
+  ],
+  minimumCharge: 0,
+  volumeTiers: [],
+  installFeePerWindow: 0,
+  liftSurchargePerWindow: 0,
+  surchargePerExtraPane: 0,
+  taxRate: 0,
+  areaUnit: "sqft",
+};
+
+/** Fill in fields added after a book was stored, and carry over renamed ones. */
+export function normalizePriceBook(book: PriceBook): PriceBook {
+  const { paneSurchargePerWindow, ...rest } = book as PriceBook & { paneSurchargePerWindow?: number };
+  const renamed = paneSurchargePerWindow === undefined ? {} : { surchargePerExtraPane: paneSurchargePerWindow };
+  return { ...DEFAULT_PRICE_BOOK, ...renamed, ...rest };
+}
+
+export function createPriceBook(name: string): PriceBook {
+  return {
+    ...DEFAULT_PRICE_BOOK,
+    id: uid(),
+    name,
+    products: DEFAULT_PRICE_BOOK.products.map((p) => ({ ...p, id: uid() })),
+  };
+}
+
+export type PriceLineInput = {
+  productId: string;
+  sqft: number;
+  windows: number; // openings, for per-window install fees
+  liftWindows?: number; // of those, openings above the ground floor
+  extraPanes?: number; // panes past the first, summed over the openings
+};
+
+export type PriceLine = {
+  product: Product;
+  sqft: number;
+  windows: number;
+  cost: number;
+  retailLow: number; // after the volume discount
+  retailHigh: number;
+};
+
+export type Quote = {
+  lines: PriceLine[];
+  sqft: number;
+  windows: number;
+  discountPct: number;
+  installFees: number;
+  liftFees: number;
+  paneFees: number;
+  minimumApplied: boolean;
+  subtotalLow: number; // pre-tax: discounted product retail + install/lift/pane fees, floored at the minimum
+  subtotalHigh: number;
+  taxLow: number;
+  taxHigh: number;
+  totalLow: number;
+  totalHigh: number;
+  cost: number;
+  commissionLow: number; // subtotal − product cost − install/lift/pane fees; tax never counts
+  commissionHigh: number;
+};
+
+/** Whole dollars, e.g. "$1,250". */
+export function dollars(n: number) {
+  return `$${Math.round(n).toLocaleString()}`;
+}
+
+/** Discount of the largest tier the job qualifies for. */
+export function tierDiscount(tiers: VolumeTier[], sqft: number) {
+  let best: VolumeTier | null = null;
+  for (const t of tiers) {
+    if (sqft >= t.minSqft && (!best || t.minSqft > best.minSqft)) best = t;
+  }
+  return best ? best.discountPct : 0;
+}
+
+/**
+ * Price a job against a book. Lines naming a product the book doesn't have
+ * fall back to its first product so a job never silently drops area.
+ */
+export function priceJob(book: PriceBook, inputs: PriceLineInput[]): Quote {
+  const fallback = book.products[0];
+  const merged = new Map<string, PriceLineInput & { product: Product }>();
+  for (const input of inputs) {
+    const product = book.products.find((p) => p.id === input.productId) ?? fallback;
+    if (!product) continue;
+    const prev = merged.get(product.id);
+    merged.set(product.id, {
+      product,
+      productId: product.id,
+      sqft: (prev?.sqft ?? 0) + input.sqft,
+      windows: (prev?.windows ?? 0) + input.windows,
+    });
+  }
+
+  const sqft = inputs.reduce((n, l) => n + l.sqft, 0);
+  const windows = inputs.reduce((n, l) => n + l.windows, 0);
+  const liftWindows = inputs.reduce((n, l) => n + (l.liftWindows ?? 0), 0);
+  const extraPanes = inputs.reduce((n, l) => n + (l.extraPanes ?? 0), 0);
+  const discountPct = tierDiscount(book.volumeTiers, fromSqft(sqft, book.areaUnit));
+  const keep = 1 - discountPct / 100;
+
+  const lines: PriceLine[] = Array.from(merged.values()).map(({ product, sqft, windows }) => {
+    const area = fromSqft(sqft, book.areaUnit);
+    return {
+      product,
+      sqft,
+      windows,
+      cost: area * product.costPerSqft,
+      retailLow: area * product.retailLowPerSqft * keep,
+      retailHigh: area * product.retailHighPerSqft * keep,
+    };
+  });
+
+  const cost = lines.reduce((n, l) => n + l.cost, 0);
+  const installFees = windows * book.installFeePerWindow;
+  const liftFees = liftWindows * book.liftSurchargePerWindow;
+  const paneFees = extraPanes * book.surchargePerExtraPane;
+  const fees = installFees + liftFees + paneFees;
+  const rawLow = lines.reduce((n, l) => n + l.retailLow, 0) + fees;
+  const rawHigh = lines.reduce((n, l) => n + l.retailHigh, 0) + fees;
+  const subtotalLow = Math.max(rawLow, book.minimumCharge);
+  const subtotalHigh = Math.max(rawHigh, book.minimumCharge);
+
+  const rate = book.taxRate / 100;
+  const taxLow = subtotalLow * rate;
+  const taxHigh = subtotalHigh * rate;
+
+  return {
+    lines,
+    sqft,
+    windows,
+    discountPct,
+    installFees,
+    liftFees,
+    paneFees,
+    minimumApplied: rawLow < book.minimumCharge,
+    subtotalLow,
+    subtotalHigh,
+    taxLow,
+    taxHigh,
+    totalLow: subtotalLow + taxLow,
+    totalHigh: subtotalHigh + taxHigh,
+    cost,
+    commissionLow: subtotalLow - cost - fees,
+    commissionHigh: subtotalHigh - cost - fees,
+  };
+}
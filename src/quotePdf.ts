@@ -0,0 +1,218 @@
+import { renderAnnotatedPhoto } from "./annotate";
+import { countedQuantity, windowAttrs } from "./boxes";
+import type { Box } from "./boxes";
+import { photoMarkup, photoTitle } from "./jobs";
+import type { Job, Markup } from "./jobs";
+import { measurePhoto, windowSqft } from "./measure";
+import { dollars } from "./pricing";
+import type { PriceBook, Quote } from "./pricing";
+import { AREA_UNITS, areaUnit, fromInches, fromSqft, lengthUnit } from "./units";
+
+// printed on every customer quote; the business name and contact come from the price book
+export const QUOTE_TERMS = [
+  "Estimate based on photo measurements; final price confirmed after on-site measure.",
+  "Quote valid for 30 days from the date above.",
+  "50% deposit due at scheduling, balance due on completion.",
+  "Manufacturer film warranty applies; installation workmanship warranted for 1 year.",
+];
+
+export type QuoteWindowRow = {
+  number: number;
+  label: string;
+  location: string;
+  wIn: number;
+  hIn: number;
+  quantity: number;
+  sqft: number; // quantity × one opening, on the job's area basis
+  product: string;
+};
+
+export type QuotePhoto = {
+  photoId: string;
+  title: string;
+  blob: Blob;
+  boxes: Box[];
+  numbers: Map<string, number>; // window box id -> row number
+};
+
+/** Number every counted, measured window across the job in photo order. */
+export function collectQuoteWindows(job: Job, markup: Markup, book: PriceBook) {
+  const rows: QuoteWindowRow[] = [];
+  const photos: QuotePhoto[] = [];
+
+  for (const photo of job.photos) {
+    const pm = photoMarkup(markup, photo.id);
+    const m = measurePhoto(pm);
+    const numbers = new Map<string, number>();
+
+    for (const b of pm.boxes) {
+      const size = m.windows.get(b.id);
+      const qty = countedQuantity(b);
+      if (b.type !== "window" || !size || qty === 0) continue;
+      const a = windowAttrs(b);
+      const product = book.products.find((p) => p.id === a.productId) ?? book.products[0];
+      const number = rows.length + 1;
+      numbers.set(b.id, number);
+      rows.push({
+        number,
+        label: b.label,
+        location: photoTitle(photo),
+        wIn: size.wIn,
+        hIn: size.hIn,
+        quantity: qty,
+        sqft: windowSqft(size, job.areaBasis) * qty,
+        product: product?.name ?? "",
+      });
+    }
+
+    if (numbers.size > 0) {
+      photos.push({ photoId: photo.id, title: photoTitle(photo), blob: photo.blob, boxes: pm.boxes, numbers });
+    }
+  }
+
+  return { rows, photos };
+}
+
+const range = (lo: number, hi: number) =>
+  Math.round(lo) === Math.round(hi) ? dollars(hi) : `${dollars(lo)} – ${dollars(hi)}`;
+const fixed1 = (n: number) => (Math.round(n * 10) / 10).toString();
+
+/**
+ * Customer-facing PDF: header, customer, annotated photos, window table,
+ * prices and terms. Deliberately leaves out cost and commission.
+ */
+export async function buildCustomerQuotePdf(
+  job: Job,
+  markup: Markup,
+  book: PriceBook,
+  quote: Quote
+): Promise<Blob> {
+  // jsPDF is large; only load it when a quote is actually generated
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "letter" });
+  const { rows, photos } = collectQuoteWindows(job, markup, book);
+  const len = lengthUnit(job.units);
+  const area = areaUnit(job.units);
+  const size = (inches: number) => fixed1(fromInches(inches, len));
+  const areaText = (sqft: number) => fixed1(fromSqft(sqft, area));
+
+  const pageW = doc.internal.pageSize.getWidth();
+  const pageH = doc.internal.pageSize.getHeight();
+  const margin = 40;
+  const contentW = pageW - margin * 2;
+  let y = margin;
+
+  const ensureSpace = (h: number) => {
+    if (y + h > pageH - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  // header
+  if (book.companyName) doc.setFont("helvetica", "bold").setFontSize(18).text(book.companyName, margin, y + 14);
+  if (book.companyContact) doc.setFont("helvetica", "normal").setFontSize(9).text(book.companyContact, margin, y + 28);
+  doc.setFont("helvetica", "bold").setFontSize(14).text("Window Film Quote", pageW - margin, y + 14, { align: "right" });
+  doc.setFont("helvetica", "normal").setFontSize(9).text(job.date, pageW - margin, y + 28, { align: "right" });
+  y += 44;
+  doc.setDrawColor(180).line(margin, y, pageW - margin, y);
+  y += 18;
+
+  // customer
+  doc.setFontSize(11);
+  if (job.customerName) {
+    doc.setFont("helvetica", "bold").text(job.customerName, margin, y);
+    y += 14;
+  }
+  if (job.address) {
+    doc.setFont("helvetica", "normal").text(job.address, margin, y);
+    y += 14;
+  }
+  y += 8;
+
+  // annotated photos, fit to the page width and at most 260pt tall
+  for (const photo of photos) {
+    const canvas = await renderAnnotatedPhoto(photo.blob, photo.boxes, photo.numbers);
+    const k = Math.min(contentW / canvas.width, 260 / canvas.height);
+    const w = canvas.width * k;
+    const h = canvas.height * k;
+    ensureSpace(h + 24);
+    doc.setFont("helvetica", "bold").setFontSize(10).text(photo.title, margin, y + 10);
+    doc.addImage(canvas.toDataURL("image/jpeg", 0.85), "JPEG", margin, y + 16, w, h);
+    y += h + 28;
+  }
+
+  // window table
+  const cols = [
+    { title: "#", x: margin, align: "left" as const, w: 20 },
+    { title: "Window", x: margin + 24, align: "left" as const, w: 130 },
+    { title: "Location", x: margin + 160, align: "left" as const, w: 100 },
+    { title: `Size (${len})`, x: margin + 330, align: "right" as const, w: 60 },
+    { title: "Qty", x: margin + 360, align: "right" as const, w: 25 },
+    { title: job.units === "metric" ? "m²" : "Sq ft", x: margin + 405, align: "right" as const, w: 40 },
+    { title: "Product", x: margin + 420, align: "left" as const, w: contentW - 420 },
+  ];
+  ensureSpace(40);
+  doc.setFont("helvetica", "bold").setFontSize(9);
+  for (const c of cols) doc.text(c.title, c.x, y, { align: c.align });
+  y += 4;
+  doc.line(margin, y, pageW - margin, y);
+  y += 12;
+
+  doc.setFont("helvetica", "normal");
+  for (const r of rows) {
+    ensureSpace(14);
+    const cells = [
+      String(r.number),
+      r.label,
+      r.location,
+      `${size(r.wIn)} × ${size(r.hIn)}`,
+      String(r.quantity),
+      areaText(r.sqft),
+      r.product,
+    ];
+    cells.forEach((text, i) => doc.text(text, cols[i].x, y, { align: cols[i].align, maxWidth: cols[i].w }));
+    y += 14;
+  }
+
+  // pricing
+  y += 10;
+  ensureSpace(40 + quote.lines.length * 14);
+  doc.line(margin, y, pageW - margin, y);
+  y += 16;
+  const priceRow = (label: string, value: string, bold = false) => {
+    ensureSpace(14);
+    doc.setFont("helvetica", bold ? "bold" : "normal").setFontSize(bold ? 11 : 10);
+    doc.text(label, margin, y);
+    doc.text(value, pageW - margin, y, { align: "right" });
+    y += bold ? 18 : 14;
+  };
+
+  for (const l of quote.lines) {
+    const amount = `${areaText(l.sqft)} ${AREA_UNITS[area].label}${job.areaBasis === "glass" ? " of glass" : ""}`;
+    priceRow(`${l.product.name} — ${amount}`, range(l.retailLow, l.retailHigh));
+  }
+  if (quote.discountPct > 0) priceRow(`Volume discount (${quote.discountPct}%)`, "included");
+  if (quote.installFees > 0) priceRow("Installation", dollars(quote.installFees));
+  if (quote.liftFees > 0) priceRow("Lift / upper-floor access", dollars(quote.liftFees));
+  if (quote.paneFees > 0) priceRow("Double / triple glazing", dollars(quote.paneFees));
+  if (quote.minimumApplied) priceRow("Minimum job charge applies", dollars(book.minimumCharge));
+  priceRow("Subtotal", range(quote.subtotalLow, quote.subtotalHigh));
+  if (book.taxRate > 0) priceRow(`Tax (${book.taxRate}%)`, range(quote.taxLow, quote.taxHigh));
+  priceRow("Total", range(quote.totalLow, quote.totalHigh), true);
+
+  // terms
+  y += 10;
+  ensureSpace(20 + QUOTE_TERMS.length * 12);
+  doc.setFont("helvetica", "bold").setFontSize(9).text("Terms", margin, y);
+  y += 12;
+  doc.setFont("helvetica", "normal").setFontSize(8);
+  for (const t of QUOTE_TERMS) {
+    const lines = doc.splitTextToSize(`• ${t}`, contentW) as string[];
+    ensureSpace(lines.length * 10);
+    doc.text(lines, margin, y);
+    y += lines.length * 10;
+  }
+
+  return doc.output("blob");
+}
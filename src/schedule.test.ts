@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { cutsFromSchedule, packCuts, planCutList, roundUpTo, scheduleCsv, toCsv } from "./schedule";
+import type { ScheduleRow } from "./schedule";
+
+const row = (over: Partial<ScheduleRow>): ScheduleRow => ({
+  number: 1,
+  label: "Window 1",
+  location: "Front",
+  wIn: 30,
+  hIn: 40,
+  quantity: 1,
+  sqft: 30 * 40 / 144,
+  product: "Solar film",
+  ...over,
+});
+
+describe("roundUpTo", () => {
+  it("rounds up to the increment without bumping exact sizes", () => {
+    expect(roundUpTo(35.1, 0.25)).toBe(35.25);
+    expect(roundUpTo(35.1, 1)).toBe(36);
+    expect(roundUpTo(36, 0.125)).toBe(36);
+    expect(roundUpTo(36.0000000001, 0.5)).toBe(36);
+  });
+});
+
+describe("cut list", () => {
+  it("adds the margin to each side and one cut per counted opening", () => {
+    const cuts = cutsFromSchedule([row({ quantity: 2 })], 1);
+    expect(cuts).toHaveLength(2);
+    expect(cuts[0]).toMatchObject({ wIn: 32, hIn: 42 });
+  });
+
+  it("lays cuts across the roll in shelves", () => {
+    // four 24×30 cuts on a 60" roll: two per shelf with the short side along the roll
+    const cuts = cutsFromSchedule([row({ wIn: 24, hIn: 30, quantity: 4 })], 0);
+    const plan = packCuts(cuts, 60, 1200);
+    expect(plan.shelves).toBe(2);
+    expect(plan.lengthIn).toBe(48);
+    expect(plan.rolls).toBe(1);
+    expect(plan.usePct).toBeCloseTo(100);
+  });
+
+  it("turns a cut to fit a narrow roll and flags cuts that never fit", () => {
+    const cuts = cutsFromSchedule([row({ wIn: 30, hIn: 80 }), row({ number: 2, wIn: 50, hIn: 90 })], 0);
+    const plan = packCuts(cuts, 36, 1200);
+    expect(plan.lengthIn).toBe(80);
+    expect(plan.tooWide.map((c) => c.number)).toEqual([2]);
+  });
+
+  it("starts a new roll instead of splitting a shelf across roll ends", () => {
+    const cuts = cutsFromSchedule([row({ wIn: 60, hIn: 70, quantity: 3 })], 0);
+    const plan = packCuts(cuts, 72, 150);
+    expect(plan.shelves).toBe(3);
+    expect(plan.rolls).toBe(2);
+  });
+
+  it("plans each product separately and picks the width using least film", () => {
+    const lists = planCutList(
+      [row({ wIn: 30, hIn: 30, quantity: 2 }), row({ number: 2, wIn: 20, hIn: 20, product: "Security" })],
+      0,
+      [36, 60, 72],
+      1200
+    );
+    expect(lists.map((l) => l.product)).toEqual(["Solar film", "Security"]);
+    expect(lists[0].best?.rollWidth).toBe(60);
+    expect(lists[1].best?.rollWidth).toBe(36);
+  });
+});
+
+describe("CSV", () => {
+  it("quotes cells with commas, quotes and newlines", () => {
+    expect(toCsv([["a,b", 'say "hi"', "plain", 3]])).toBe('"a,b","say ""hi""",plain,3\r\n');
+  });
+
+  it("keeps text that looks like a formula from running in a spreadsheet", () => {
+    expect(toCsv([["=HYPERLINK(\"x\")", "+1", "-2", "@SUM(A1)", "Bay -2", -2]])).toBe(
+      `"'=HYPERLINK(""x"")",'+1,'-2,'@SUM(A1),Bay -2,-2\r\n`
+    );
+    const [, line] = scheduleCsv([row({ label: "=cmd", product: "@film" })]).split("\r\n");
+    expect(line.split(",")).toEqual(expect.arrayContaining(["'=cmd", "'@film"]));
+  });
+
+  it("writes a header and one line per window", () => {
+    const lines = scheduleCsv([row({ label: "Bay, left" })]).trim().split("\r\n");
+    expect(lines[0]).toBe("#,Window,Location,Width (in),Height (in),Qty,Sq ft,Product");
+    expect(lines[1]).toBe('1,"Bay, left",Front,30,40,1,8.33,Solar film');
+  });
+
+  it("writes sizes in cm and area in m² for metric jobs", () => {
+    const lines = scheduleCsv([row({})], "metric").trim().split("\r\n");
+    expect(lines[0]).toBe("#,Window,Location,Width (cm),Height (cm),Qty,m²,Product");
+    expect(lines[1]).toBe("1,Window 1,Front,76.2,101.6,1,0.77,Solar film");
+  });
+});
@@ -0,0 +1,213 @@
+import type { Job, Markup } from "./jobs";
+import type { PriceBook } from "./pricing";
+import { collectQuoteWindows } from "./quotePdf";
+import { areaUnit, fromInches, fromSqft, lengthUnit, toInches } from "./units";
+import type { AreaUnit, UnitSystem } from "./units";
+
+/** Size rounding choices for the schedule, in inches; metric ones land on whole mm. */
+export const ROUNDING_INCREMENTS: Record<UnitSystem, { label: string; value: number }[]> = {
+  imperial: [
+    { label: '1/8"', value: 0.125 },
+    { label: '1/4"', value: 0.25 },
+    { label: '1/2"', value: 0.5 },
+    { label: '1"', value: 1 },
+  ],
+  metric: [
+    { label: "1 mm", value: toInches(1, "mm") },
+    { label: "5 mm", value: toInches(5, "mm") },
+    { label: "1 cm", value: toInches(1, "cm") },
+    { label: "2 cm", value: toInches(2, "cm") },
+  ],
+};
+
+// common film roll widths (in) and a 100 ft roll
+export const STANDARD_ROLL_WIDTHS = [24, 36, 48, 60, 72];
+export const DEFAULT_ROLL_LENGTH_IN = 1200;
+
+export type ScheduleRow = {
+  number: number; // matches the numbered tags on the customer quote
+  label: string;
+  location: string; // elevation · room
+  wIn: number; // rounded up to the increment
+  hIn: number;
+  quantity: number;
+  sqft: number; // quantity × one opening on the job's area basis, from the measured (unrounded) size
+  product: string;
+};
+
+/** Round up so film is never ordered short. */
+export function roundUpTo(n: number, increment: number) {
+  if (!(increment > 0)) return n;
+  // tolerate float noise so 36.0000001 stays 36
+  return Math.ceil(n / increment - 1e-9) * increment;
+}
+
+/** Every counted, measured window with its size rounded up to the increment. */
+export function windowSchedule(job: Job, markup: Markup, book: PriceBook, increment: number): ScheduleRow[] {
+  return collectQuoteWindows(job, markup, book).rows.map((r) => ({
+    ...r,
+    wIn: roundUpTo(r.wIn, increment),
+    hIn: roundUpTo(r.hIn, increment),
+  }));
+}
+
+// --- cut list ---------------------------------------------------------------
+
+export type Cut = { number: number; product: string; wIn: number; hIn: number };
+
+export type RollPlan = {
+  rollWidth: number;
+  shelves: number; // rows of cuts laid across the roll
+  lengthIn: number; // roll length used
+  rolls: number;
+  usePct: number; // cut area / film area used
+  tooWide: Cut[]; // cuts that fit this width in neither orientation
+};
+
+export type ProductCutList = {
+  product: string;
+  cuts: Cut[];
+  plans: RollPlan[]; // one per candidate roll width
+  best: RollPlan | null; // least film among widths that fit every cut
+};
+
+/** One cut per counted opening, with the waste margin added on all four sides. */
+export function cutsFromSchedule(rows: ScheduleRow[], marginIn: number): Cut[] {
+  const cuts: Cut[] = [];
+  for (const r of rows) {
+    for (let i = 0; i < r.quantity; i++) {
+      cuts.push({ number: r.number, product: r.product, wIn: r.wIn + 2 * marginIn, hIn: r.hIn + 2 * marginIn });
+    }
+  }
+  return cuts;
+}
+
+/**
+ * Shelf packing (first-fit decreasing height): each cut is turned so the side
+ * along the roll is as short as possible, cuts are laid across the roll in
+ * shelves, and shelves are filled into rolls without crossing a roll end.
+ */
+export function packCuts(cuts: Cut[], rollWidth: number, rollLength: number): RollPlan {
+  const placed: { across: number; along: number }[] = [];
+  const tooWide: Cut[] = [];
+  for (const c of cuts) {
+    const long = Math.max(c.wIn, c.hIn);
+    const short = Math.min(c.wIn, c.hIn);
+    if (long <= rollWidth) placed.push({ across: long, along: short });
+    else if (short <= rollWidth) placed.push({ across: short, along: long });
+    else tooWide.push(c);
+  }
+  placed.sort((a, b) => b.along - a.along);
+
+  const shelves: { height: number; free: number }[] = [];
+  for (const p of placed) {
+    const shelf = shelves.find((s) => s.free >= p.across);
+    if (shelf) shelf.free -= p.across;
+    else shelves.push({ height: p.along, free: rollWidth - p.across });
+  }
+
+  // a shelf longer than a whole roll still needs its own (spliced) roll run
+  const rollsUsed: number[] = [];
+  for (const s of shelves) {
+    const i = rollsUsed.findIndex((used) => used + s.height <= rollLength);
+    if (i >= 0) rollsUsed[i] += s.height;
+    else rollsUsed.push(s.height);
+  }
+
+  const lengthIn = shelves.reduce((n, s) => n + s.height, 0);
+  const cutArea = placed.reduce((n, p) => n + p.across * p.along, 0);
+  return {
+    rollWidth,
+    shelves: shelves.length,
+    lengthIn,
+    rolls: rollsUsed.reduce((n, used) => n + Math.max(1, Math.ceil(used / rollLength)), 0),
+    usePct: lengthIn > 0 ? (cutArea / (lengthIn * rollWidth)) * 100 : 0,
+    tooWide,
+  };
+}
+
+/** Cut list per film product, packed against each candidate roll width. */
+export function planCutList(
+  rows: ScheduleRow[],
+  marginIn: number,
+  rollWidths: number[],
+  rollLength: number
+): ProductCutList[] {
+  const byProduct = new Map<string, Cut[]>();
+  for (const c of cutsFromSchedule(rows, marginIn)) {
+    byProduct.set(c.product, [...(byProduct.get(c.product) ?? []), c]);
+  }
+
+  return Array.from(byProduct, ([product, cuts]) => {
+    const plans = rollWidths.map((w) => packCuts(cuts, w, rollLength));
+    const best = plans
+      .filter((p) => p.tooWide.length === 0)
+      .reduce<RollPlan | null>(
+        (a, p) => (!a || p.lengthIn * p.rollWidth < a.lengthIn * a.rollWidth ? p : a),
+        null
+      );
+    return { product, cuts, plans, best };
+  });
+}
+
+// --- CSV --------------------------------------------------------------------
+
+function csvCell(v: string | number) {
+  // text a spreadsheet would run as a formula gets a leading ' so it shows as typed; numbers stay numbers
+  const s = typeof v === "string" && /^[=+\-@\t\r]/.test(v) ? `'${v}` : String(v);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function toCsv(rows: (string | number)[][]) {
+  // CRLF so spreadsheet apps on every platform split rows correctly
+  return rows.map((r) => r.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+const fixed = (n: number, digits: number) => Number(n.toFixed(digits));
+const AREA_HEADINGS: Record<AreaUnit, string> = { sqft: "Sq ft", m2: "m²" };
+
+export function scheduleCsv(rows: ScheduleRow[], units: UnitSystem = "imperial") {
+  const len = lengthUnit(units);
+  const area = areaUnit(units);
+  const size = (n: number) => fixed(fromInches(n, len), 3);
+  return toCsv([
+    ["#", "Window", "Location", `Width (${len})`, `Height (${len})`, "Qty", AREA_HEADINGS[area], "Product"],
+    ...rows.map((r) => [
+      r.number,
+      r.label,
+      r.location,
+      size(r.wIn),
+      size(r.hIn),
+      r.quantity,
+      fixed(fromSqft(r.sqft, area), 2),
+      r.product,
+    ]),
+  ]);
+}
+
+export function cutListCsv(lists: ProductCutList[], marginIn: number, units: UnitSystem = "imperial") {
+  const len = lengthUnit(units);
+  const long = lengthUnit(units, true);
+  const size = (n: number) => fixed(fromInches(n, len), 3);
+  const out: (string | number)[][] = [
+    ["Product", "#", `Cut width (${len})`, `Cut height (${len})`, `Includes ${size(marginIn)} ${len} margin per side`],
+  ];
+  for (const l of lists) {
+    for (const c of l.cuts) out.push([l.product, c.number, size(c.wIn), size(c.hIn), ""]);
+  }
+  out.push([]);
+  out.push(["Product", `Roll width (${len})`, `Length used (${long})`, "Rolls", "Film use %", "Cuts too wide"]);
+  for (const l of lists) {
+    for (const p of l.plans) {
+      out.push([
+        p === l.best ? `${l.product} (best)` : l.product,
+        fixed(fromInches(p.rollWidth, len), 1),
+        fixed(fromInches(p.lengthIn, long), 1),
+        p.rolls,
+        Math.round(p.usePct),
+        p.tooWide.map((c) => `#${c.number}`).join(" "),
+      ]);
+    }
+  }
+  return toCsv(out);
+}
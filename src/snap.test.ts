@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { buildEdgeMap, snapPoint } from "./snap";
+import type { Pixels } from "./detect";
+
+// left/right (or top/bottom) halves in two shades
+function split(vertical: boolean, a: number, b: number, size = 100): Pixels {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const v = (vertical ? x : y) < size / 2 ? a : b;
+      data.set([v, v, v, 255], (y * size + x) * 4);
+    }
+  }
+  return { width: size, height: size, data };
+}
+
+describe("snapPoint", () => {
+  it("pulls x onto a nearby vertical edge and leaves y alone", () => {
+    const map = buildEdgeMap(split(true, 40, 220), 1);
+    const p = snapPoint(map, { x: 46, y: 30 }, 8, { x: true, y: true });
+    expect(p.x).toBeCloseTo(50, 1);
+    expect(p.y).toBe(30);
+  });
+
+  it("snaps y onto a horizontal edge", () => {
+    const map = buildEdgeMap(split(false, 220, 40), 1);
+    expect(snapPoint(map, { x: 20, y: 55 }, 8, { x: true, y: true }).y).toBeCloseTo(50, 1);
+  });
+
+  it("only snaps the requested axes", () => {
+    const map = buildEdgeMap(split(true, 40, 220), 1);
+    expect(snapPoint(map, { x: 46, y: 30 }, 8, { x: false, y: true }).x).toBe(46);
+  });
+
+  it("ignores edges out of reach or too faint", () => {
+    expect(snapPoint(buildEdgeMap(split(true, 40, 220), 1), { x: 30, y: 30 }, 8, { x: true, y: true }).x).toBe(30);
+    expect(snapPoint(buildEdgeMap(split(true, 120, 128), 1), { x: 47, y: 30 }, 8, { x: true, y: true }).x).toBe(47);
+  });
+
+  it("maps between image and downscaled map coordinates", () => {
+    // map built at half size: the edge at map x=50 is image x=100
+    const map = buildEdgeMap(split(true, 40, 220), 0.5);
+    expect(snapPoint(map, { x: 94, y: 60 }, 16, { x: true, y: false }).x).toBeCloseTo(100, 0);
+  });
+});
@@ -0,0 +1,91 @@
+import type { Point } from "./geometry";
+import { grayscale, sobel } from "./detect";
+import type { Pixels } from "./detect";
+
+// gradients are computed on a copy at most this big; finer than a fingertip anyway
+const SNAP_MAX_PX = 1600;
+// mean Sobel response along the edge; a clean frame edge is several hundred
+const SNAP_MIN_STRENGTH = 80;
+
+export type EdgeMap = {
+  width: number;
+  height: number;
+  k: number; // map px per image px
+  gx: Float32Array; // |d/dx|, strong on vertical edges
+  gy: Float32Array; // |d/dy|, strong on horizontal edges
+};
+
+export type SnapAxes = { x: boolean; y: boolean };
+
+export function buildEdgeMap(pixels: Pixels, k: number): EdgeMap {
+  const { gx, gy } = sobel(grayscale(pixels), pixels.width, pixels.height);
+  for (let i = 0; i < gx.length; i++) {
+    gx[i] = Math.abs(gx[i]);
+    gy[i] = Math.abs(gy[i]);
+  }
+  return { width: pixels.width, height: pixels.height, k, gx, gy };
+}
+
+export function edgeMapForImage(img: HTMLImageElement): EdgeMap | null {
+  const k = Math.min(1, SNAP_MAX_PX / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(img.naturalWidth * k);
+  canvas.height = Math.round(img.naturalHeight * k);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx || canvas.width < 3 || canvas.height < 3) return null;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return buildEdgeMap(ctx.getImageData(0, 0, canvas.width, canvas.height), k);
+}
+
+/**
+ * Strongest edge line within r of `at` (a column when vertical, else a row),
+ * averaged over ±span along the line; sub-pixel, in map px, or null if weak.
+ */
+function strongestLine(map: EdgeMap, at: Point, r: number, span: number, vertical: boolean) {
+  const g = vertical ? map.gx : map.gy;
+  const across = vertical ? map.width : map.height;
+  const along = vertical ? map.height : map.width;
+  const c0 = Math.round(vertical ? at.x : at.y);
+  const a0 = Math.round(vertical ? at.y : at.x);
+  const lo = Math.max(0, a0 - span);
+  const hi = Math.min(along - 1, a0 + span);
+  if (hi < lo) return null;
+
+  const score = (c: number) => {
+    if (c < 0 || c >= across) return 0;
+    let sum = 0;
+    for (let a = lo; a <= hi; a++) sum += g[vertical ? a * map.width + c : c * map.width + a];
+    return sum / (hi - lo + 1);
+  };
+
+  // nearest first, so equal scores resolve toward the pointer
+  let best = -1;
+  let bestScore = SNAP_MIN_STRENGTH;
+  for (let d = 0; d <= r; d++) {
+    for (const c of d === 0 ? [c0] : [c0 - d, c0 + d]) {
+      const s = score(c);
+      if (s > bestScore) {
+        best = c;
+        bestScore = s;
+      }
+    }
+  }
+  if (best < 0) return null;
+
+  // parabola through the neighbours; a step edge lands between two pixels
+  const l = score(best - 1);
+  const rr = score(best + 1);
+  const denom = l - 2 * bestScore + rr;
+  const offset = denom < 0 ? Math.max(-0.5, Math.min(0.5, (l - rr) / (2 * denom))) : 0;
+  return best + offset + 0.5;
+}
+
+/** Pull a point onto nearby strong image edges, per axis; radius in image px. */
+export function snapPoint(map: EdgeMap, pt: Point, radius: number, axes: SnapAxes): Point {
+  const at = { x: pt.x * map.k, y: pt.y * map.k };
+  const r = Math.max(1, Math.round(radius * map.k));
+  const span = Math.max(3, r);
+  const x = axes.x ? strongestLine(map, at, r, span, true) : null;
+  const y = axes.y ? strongestLine(map, at, r, span, false) : null;
+  return { x: x === null ? pt.x : x / map.k, y: y === null ? pt.y : y / map.k };
+}
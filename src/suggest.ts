@@ -0,0 +1,65 @@
+import { uid } from "./boxes";
+import type { Box } from "./boxes";
+import { quadBounds } from "./geometry";
+import type { Quad } from "./geometry";
+import type { RefSize } from "./calibration";
+import type { DetectRequest, DetectedRect, DetectedReference, Pixels } from "./detect";
+
+// detection runs on a downscaled copy; plenty for window outlines and fast on phones
+const DETECT_MAX_PX = 640;
+
+function overlapsExisting(b: Box, existing: Box[]) {
+  return existing.some((e) => {
+    const ix = Math.min(b.x + b.w, e.x + e.w) - Math.max(b.x, e.x);
+    const iy = Math.min(b.y + b.h, e.y + e.h) - Math.max(b.y, e.y);
+    return ix > 0 && iy > 0 && (ix * iy) / Math.min(b.w * b.h, e.w * e.h) > 0.5;
+  });
+}
+
+/** Downscale the photo, run one detection in a worker; k maps image px to analysed px. */
+async function detectInWorker<T>(img: HTMLImageElement, request: (pixels: Pixels) => DetectRequest) {
+  const k = Math.min(1, DETECT_MAX_PX / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(img.naturalWidth * k);
+  canvas.height = Math.round(img.naturalHeight * k);
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D is not available in this browser.");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const { width, height, data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+
+  const worker = new Worker(new URL("./detect.worker.ts", import.meta.url), { type: "module" });
+  try {
+    const result = await new Promise<T>((resolve, reject) => {
+      worker.onmessage = (e: MessageEvent<T>) => resolve(e.data);
+      worker.onerror = () => reject(new Error("Detection failed."));
+      worker.postMessage(request({ width, height, data }), [data.buffer]);
+    });
+    return { result, k };
+  } finally {
+    worker.terminate();
+  }
+}
+
+/**
+ * Propose window boxes for a loaded photo, in image px, skipping anything
+ * already drawn. Runs detection in a worker; nothing leaves the device.
+ */
+export async function suggestWindows(img: HTMLImageElement, existing: Box[]): Promise<Box[]> {
+  const { result, k } = await detectInWorker<DetectedRect[]>(img, (pixels) => ({ find: "windows", pixels }));
+  return result
+    .map((r): Box => ({ id: uid(), type: "window", label: "Suggested", x: r.x / k, y: r.y / k, w: r.w / k, h: r.h / k }))
+    .filter((b) => !overlapsExisting(b, existing));
+}
+
+/** Find the taped sheet or a door and return it as a 4-corner reference box. */
+export async function suggestReference(
+  img: HTMLImageElement,
+  find: "paper" | "door",
+  size: RefSize,
+  label: string
+): Promise<{ box: Box; confidence: number } | null> {
+  const { result, k } = await detectInWorker<DetectedReference | null>(img, (pixels) => ({ find, pixels, size }));
+  if (!result) return null;
+  const quad = result.quad.map((p) => ({ x: p.x / k, y: p.y / k })) as Quad;
+  return { box: { id: uid(), type: "reference", label, ...quadBounds(quad), quad }, confidence: result.confidence };
+}
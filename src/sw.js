@@ -0,0 +1,49 @@
+// Service worker template; vite.config.ts fills in the build's file list and
+// emits it as sw.js. Jobs and photos already live in IndexedDB, so caching the
+// app itself is all it takes to work with no signal.
+
+const VERSION = "__VERSION__";
+const PRECACHE = ["__PRECACHE__"];
+const CACHE = `window-sqft-${VERSION}`;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(["./", ...PRECACHE])));
+  self.skipWaiting();
+});
+
+// a new build replaces the old cache outright; its hashed files are never requested again
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => keys.filter((k) => k.startsWith("window-sqft-") && k !== CACHE))
+      .then((stale) => Promise.all(stale.map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+
+  // pages: fresh when online, the cached shell when not
+  if (request.mode === "navigate") {
+    event.respondWith(fetch(request).catch(() => caches.match("./", { cacheName: CACHE })));
+    return;
+  }
+
+  // hashed assets never change, so the cache wins; anything missed is cached on the way through
+  event.respondWith(
+    caches.match(request, { cacheName: CACHE }).then(
+      (hit) =>
+        hit ??
+        fetch(request).then((res) => {
+          if (res.ok) {
+            const copy = res.clone();
+            event.waitUntil(caches.open(CACHE).then((cache) => cache.put(request, copy)));
+          }
+          return res;
+        })
+    )
+  );
+});
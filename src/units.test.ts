@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { SQFT_PER_M2, areaUnit, fromInches, fromSqft, inputLength, lengthUnit, toInches, toSqft } from "./units";
+
+describe("units", () => {
+  it("converts lengths both ways", () => {
+    expect(fromInches(1, "mm")).toBe(25.4);
+    expect(fromInches(100, "cm")).toBeCloseTo(254);
+    expect(fromInches(1200, "ft")).toBe(100);
+    expect(toInches(297, "mm")).toBeCloseTo(11.6929, 4);
+    expect(toInches(fromInches(36, "m"), "m")).toBeCloseTo(36);
+  });
+
+  it("converts areas both ways", () => {
+    expect(SQFT_PER_M2).toBeCloseTo(10.7639, 4);
+    expect(fromSqft(SQFT_PER_M2, "m2")).toBeCloseTo(1);
+    expect(toSqft(1, "m2")).toBeCloseTo(10.7639, 4);
+    expect(fromSqft(12, "sqft")).toBe(12);
+  });
+
+  it("picks the units for each system", () => {
+    expect(lengthUnit("imperial")).toBe("in");
+    expect(lengthUnit("metric")).toBe("cm");
+    expect(lengthUnit("metric", true)).toBe("m");
+    expect(areaUnit("metric")).toBe("m2");
+  });
+
+  it("reads a typed metric size back as typed", () => {
+    expect(inputLength(toInches(21, "cm"), "cm")).toBe(21);
+    expect(inputLength(toInches(297, "mm"), "mm")).toBe(297);
+  });
+});
@@ -0,0 +1,61 @@
+// Sizes are stored in inches and areas in sq ft throughout; metric only
+// changes what is typed in and shown, so switching a job back and forth is
+// lossless.
+
+export type UnitSystem = "imperial" | "metric";
+export type LengthUnit = "in" | "ft" | "mm" | "cm" | "m";
+export type AreaUnit = "sqft" | "m2";
+
+export const UNIT_SYSTEMS: Record<UnitSystem, string> = {
+  imperial: "Inches & sq ft",
+  metric: "Centimetres & m²",
+};
+
+export const LENGTH_UNITS: Record<LengthUnit, { label: string; perInch: number; step: number }> = {
+  in: { label: "in", perInch: 1, step: 0.125 },
+  ft: { label: "ft", perInch: 1 / 12, step: 1 },
+  mm: { label: "mm", perInch: 25.4, step: 1 },
+  cm: { label: "cm", perInch: 2.54, step: 0.1 },
+  m: { label: "m", perInch: 0.0254, step: 0.1 },
+};
+
+export const SQFT_PER_M2 = 1 / (0.3048 * 0.3048);
+
+export const AREA_UNITS: Record<AreaUnit, { label: string; rate: string; perSqft: number }> = {
+  sqft: { label: "sq ft", rate: "sqft", perSqft: 1 },
+  m2: { label: "m²", rate: "m²", perSqft: 1 / SQFT_PER_M2 },
+};
+
+/** Unit for window and reference sizes; "long" is for roll lengths. */
+export function lengthUnit(system: UnitSystem, long = false): LengthUnit {
+  if (system === "metric") return long ? "m" : "cm";
+  return long ? "ft" : "in";
+}
+
+export function areaUnit(system: UnitSystem): AreaUnit {
+  return system === "metric" ? "m2" : "sqft";
+}
+
+export function fromInches(inches: number, unit: LengthUnit) {
+  return inches * LENGTH_UNITS[unit].perInch;
+}
+
+export function toInches(value: number, unit: LengthUnit) {
+  return value / LENGTH_UNITS[unit].perInch;
+}
+
+export function fromSqft(sqft: number, unit: AreaUnit) {
+  return sqft * AREA_UNITS[unit].perSqft;
+}
+
+export function toSqft(value: number, unit: AreaUnit) {
+  return value / AREA_UNITS[unit].perSqft;
+}
+
+/**
+ * A stored length as it should sit in a number input: rounded well past what
+ * anyone types, so 21 cm saved as 8.2677… in reads back as 21.
+ */
+export function inputLength(inches: number, unit: LengthUnit) {
+  return Number(fromInches(inches, unit).toFixed(4));
+}
@@ -0,0 +1,125 @@
+import fc from "fast-check";
+import { describe, expect, it } from "vitest";
+import { FIT_VIEW, canvasToImage, clampScale, containFit, imageToCanvas, zoomAbout, zoomToRect } from "./view";
+import type { View } from "./view";
+
+// base-space point -> canvas px relative to the fitted photo's corner
+const onScreen = (v: View, p: { x: number; y: number }) => ({ x: v.tx + p.x * v.scale, y: v.ty + p.y * v.scale });
+
+describe("zoomAbout", () => {
+  it("keeps the point under the cursor still", () => {
+    const v: View = { scale: 2, tx: -40, ty: 10 };
+    const at = { x: 120, y: 80 };
+    const under = { x: (at.x - v.tx) / v.scale, y: (at.y - v.ty) / v.scale };
+    const next = zoomAbout(v, 3, at);
+    expect(next.scale).toBe(3);
+    expect(onScreen(next, under).x).toBeCloseTo(at.x);
+    expect(onScreen(next, under).y).toBeCloseTo(at.y);
+  });
+
+  it("stays within the zoom limits", () => {
+    expect(zoomAbout(FIT_VIEW, 0.5, { x: 10, y: 10 })).toEqual(FIT_VIEW);
+    expect(zoomAbout(FIT_VIEW, 50, { x: 0, y: 0 }).scale).toBe(clampScale(50));
+  });
+});
+
+describe("zoomToRect", () => {
+  it("centres the rectangle with a margin", () => {
+    const v = zoomToRect({ x: 100, y: 50, w: 100, h: 40 }, { w: 400, h: 300 }, { x: 0, y: 25 });
+    // width-limited: 400 / (100 × 1.3)
+    expect(v.scale).toBeCloseTo(400 / 130);
+    const c = onScreen(v, { x: 150, y: 70 });
+    expect(c.x).toBeCloseTo(200);
+    expect(c.y + 25).toBeCloseTo(150);
+  });
+});
+
+const size = fc.record({ w: fc.integer({ min: 50, max: 8000 }), h: fc.integer({ min: 50, max: 8000 }) });
+const view = fc.record({
+  scale: fc.double({ min: 1, max: 6, noNaN: true }),
+  tx: fc.double({ min: -5000, max: 5000, noNaN: true }),
+  ty: fc.double({ min: -5000, max: 5000, noNaN: true }),
+});
+const unit = fc.double({ min: 0, max: 1, noNaN: true });
+// a point on the very edge can come back a hair outside the photo, and off-photo points map to null
+const inside = fc.double({ min: 1e-6, max: 1 - 1e-6, noNaN: true });
+
+describe("containFit", () => {
+  it("letterboxes a wide photo top and bottom", () => {
+    const fit = containFit({ w: 4000, h: 2000 }, { w: 400, h: 300 });
+    expect(fit).toEqual({ baseW: 400, baseH: 200, baseOffsetX: 0, baseOffsetY: 50, baseScale: 0.1 });
+  });
+
+  it("fits any photo whole and centred with its aspect ratio", () => {
+    fc.assert(
+      fc.property(size, size, (image, display) => {
+        const fit = containFit(image, display);
+        expect(fit.baseW).toBeLessThanOrEqual(display.w + 1e-9);
+        expect(fit.baseH).toBeLessThanOrEqual(display.h + 1e-9);
+        // one side fills the canvas
+        expect(Math.min(display.w - fit.baseW, display.h - fit.baseH)).toBeCloseTo(0, 6);
+        expect(fit.baseW / fit.baseH).toBeCloseTo(image.w / image.h, 6);
+        expect(fit.baseOffsetX * 2 + fit.baseW).toBeCloseTo(display.w, 6);
+        expect(fit.baseOffsetY * 2 + fit.baseH).toBeCloseTo(display.h, 6);
+        expect(fit.baseScale * image.w).toBeCloseTo(fit.baseW, 6);
+      })
+    );
+  });
+});
+
+describe("canvas ↔ image mapping", () => {
+  it("round-trips image points under any zoom, pan and letterbox", () => {
+    fc.assert(
+      fc.property(size, size, view, inside, inside, (image, display, v, u, t) => {
+        const fit = containFit(image, display);
+        const p = { x: u * image.w, y: t * image.h };
+        const back = canvasToImage(imageToCanvas(p, fit, v), fit, v, image);
+        expect(back).not.toBeNull();
+        expect(back!.x).toBeCloseTo(p.x, 6);
+        expect(back!.y).toBeCloseTo(p.y, 6);
+      })
+    );
+  });
+
+  it("round-trips canvas points that land on the photo", () => {
+    fc.assert(
+      fc.property(size, size, view, unit, unit, (image, display, v, u, t) => {
+        const fit = containFit(image, display);
+        const c = { x: u * display.w, y: t * display.h };
+        const p = canvasToImage(c, fit, v, image);
+        if (!p) return;
+        const again = imageToCanvas(p, fit, v);
+        expect(again.x).toBeCloseTo(c.x, 6);
+        expect(again.y).toBeCloseTo(c.y, 6);
+      })
+    );
+  });
+
+  it("finds nothing in the letterbox bars at the fitted view", () => {
+    fc.assert(
+      fc.property(size, size, unit, (image, display, t) => {
+        const fit = containFit(image, display);
+        if (fit.baseOffsetY > 1) {
+          expect(canvasToImage({ x: t * display.w, y: fit.baseOffsetY * 0.5 }, fit, FIT_VIEW, image)).toBeNull();
+        }
+        if (fit.baseOffsetX > 1) {
+          expect(canvasToImage({ x: fit.baseOffsetX * 0.5, y: t * display.h }, fit, FIT_VIEW, image)).toBeNull();
+        }
+      })
+    );
+  });
+
+  it("keeps the point under the cursor fixed through zoomAbout", () => {
+    fc.assert(
+      fc.property(size, size, view, view, unit, unit, (image, display, v, { scale }, u, t) => {
+        const fit = containFit(image, display);
+        const p = { x: u * image.w, y: t * image.h };
+        const before = imageToCanvas(p, fit, v);
+        const next = zoomAbout(v, scale, { x: before.x - fit.baseOffsetX, y: before.y - fit.baseOffsetY });
+        const after = imageToCanvas(p, fit, next);
+        expect(after.x).toBeCloseTo(before.x, 4);
+        expect(after.y).toBeCloseTo(before.y, 4);
+      })
+    );
+  });
+});
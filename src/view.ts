@@ -0,0 +1,82 @@
+import type { Point } from "./geometry";
+
+// zoom + pan over the photo as fitted to the canvas ("base" space), in canvas CSS px
+export type View = { scale: number; tx: number; ty: number };
+
+export const FIT_VIEW: View = { scale: 1, tx: 0, ty: 0 };
+
+export type Size = { w: number; h: number };
+
+// the photo fitted whole inside the canvas, letterboxed, before zoom and pan
+export type Fit = {
+  baseW: number;
+  baseH: number;
+  baseOffsetX: number; // bars either side, canvas CSS px
+  baseOffsetY: number;
+  baseScale: number; // base px per image px
+};
+
+const MIN_ZOOM = 1; // the whole photo
+const MAX_ZOOM = 6;
+
+export function clampScale(s: number) {
+  return Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, s));
+}
+
+/** Zoom to scale, keeping the base-space point under `at` (px from the fitted photo's corner) still. */
+export function zoomAbout(view: View, scale: number, at: Point): View {
+  const next = clampScale(scale);
+  const k = next / view.scale;
+  return { scale: next, tx: at.x - (at.x - view.tx) * k, ty: at.y - (at.y - view.ty) * k };
+}
+
+/**
+ * Frame a rectangle given in base px: as large as fits the canvas with a
+ * margin around it, centred. `offset` is where the fitted photo starts.
+ */
+export function zoomToRect(
+  rect: { x: number; y: number; w: number; h: number },
+  canvas: { w: number; h: number },
+  offset: Point,
+  margin = 0.15
+): View {
+  const pad = 1 + 2 * margin;
+  const scale = clampScale(Math.min(canvas.w / (rect.w * pad), canvas.h / (rect.h * pad)));
+  return {
+    scale,
+    tx: canvas.w / 2 - offset.x - (rect.x + rect.w / 2) * scale,
+    ty: canvas.h / 2 - offset.y - (rect.y + rect.h / 2) * scale,
+  };
+}
+
+/** Fit an image inside a canvas of the given CSS size, centred, keeping its aspect ratio. */
+export function containFit(image: Size, display: Size): Fit {
+  const imgAspect = image.w / image.h;
+  // wider than the canvas: bars above and below; otherwise either side
+  const baseW = imgAspect > display.w / display.h ? display.w : display.h * imgAspect;
+  const baseH = baseW / imgAspect;
+  return {
+    baseW,
+    baseH,
+    baseOffsetX: (display.w - baseW) / 2,
+    baseOffsetY: (display.h - baseH) / 2,
+    baseScale: baseW / image.w,
+  };
+}
+
+/** Canvas CSS px (from the canvas corner) to image px, or null off the photo. */
+export function canvasToImage(p: Point, fit: Fit, view: View, image: Size): Point | null {
+  // remove the letterbox, undo zoom/pan (which is in base space), then base px -> image px
+  const x = (p.x - fit.baseOffsetX - view.tx) / view.scale / fit.baseScale;
+  const y = (p.y - fit.baseOffsetY - view.ty) / view.scale / fit.baseScale;
+  if (x < 0 || y < 0 || x > image.w || y > image.h) return null;
+  return { x, y };
+}
+
+/** Image px to canvas CSS px; the inverse of canvasToImage. */
+export function imageToCanvas(p: Point, fit: Fit, view: View): Point {
+  return {
+    x: fit.baseOffsetX + view.tx + p.x * fit.baseScale * view.scale,
+    y: fit.baseOffsetY + view.ty + p.y * fit.baseScale * view.scale,
+  };
+}
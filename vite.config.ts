@@ -1,7 +1,30 @@
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// files in public/ that the app shell needs offline
+const PUBLIC_SHELL = ['manifest.webmanifest', 'icon.svg', 'vite.svg']
+
+// emits sw.js with every built file listed, so each deploy installs a fresh offline cache
+function serviceWorker(): Plugin {
+  return {
+    name: 'service-worker',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const files = [...Object.keys(bundle).filter((f) => !f.endsWith('.map')), ...PUBLIC_SHELL].sort()
+      const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12)
+      const source = readFileSync(new URL('./src/sw.js', import.meta.url), 'utf8')
+        .replace('"__VERSION__"', JSON.stringify(version))
+        .replace('["__PRECACHE__"]', JSON.stringify(files))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
+
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   base: '/window-sqft-estimator/',
-})
\ No newline at end of file
+})